@@ -4,44 +4,50 @@ import * as path from 'path';
 import { AgentManager } from '../services/agentManager';
 import { ProjectAnalyzer } from '../services/projectAnalyzer';
 import { CLIExecutionService } from '../services/cliExecutionService';
+import { FileService } from '../services/fileService';
 import { CommandBuilder } from '../utils/commandBuilder';
-import { CLIFeature } from '../models/cliAgent';
-import { ProjectContext } from '../models/featureSpec';
+import { CodeChangeParser } from '../utils/codeChangeParser';
+import { SpecParser, SPEC_SECTIONS } from '../utils/specParser';
+import { QuestionnaireParser } from '../utils/questionnaireParser';
+import { AgentInvocation, CLIAgentInfo, CLIExecutionResult, CLIFeature } from '../models/cliAgent';
+import { ProjectContext, GeneratedArtifactType, Questionnaire } from '../models/featureSpec';
+import { ProposedChangeProvider } from '../providers/proposedChangeProvider';
+import { CodeChangeReview } from './codeChangeReview';
+import { SpecCommandTarget } from './specCommands';
+
+const FEATURE_LABELS: Record<CLIFeature, string> = {
+    [CLIFeature.QUESTIONNAIRE_GENERATION]: 'questionnaire generation',
+    [CLIFeature.IMPLEMENTATION_PLANNING]: 'implementation planning',
+    [CLIFeature.CODE_GENERATION]: 'code generation',
+    [CLIFeature.FILE_ANALYSIS]: 'file analysis'
+};
 
 export class CLICommands {
     private agentManager: AgentManager;
     private projectAnalyzer: ProjectAnalyzer;
     private executionService: CLIExecutionService;
     private commandBuilder: CommandBuilder;
+    private specParser = new SpecParser();
+    private questionnaireParser = new QuestionnaireParser();
+    private codeChangeParser = new CodeChangeParser();
+    private codeChangeReview: CodeChangeReview;
+    private outputChannel = vscode.window.createOutputChannel('CodeSpec Agent Output');
 
-    constructor() {
+    constructor(private fileService: FileService, proposedChangeProvider: ProposedChangeProvider) {
         this.agentManager = AgentManager.getInstance();
         this.projectAnalyzer = new ProjectAnalyzer();
         this.executionService = new CLIExecutionService();
         this.commandBuilder = new CommandBuilder();
+        this.codeChangeReview = new CodeChangeReview(proposedChangeProvider);
     }
 
-    async generateQuestions(featureUri?: vscode.Uri): Promise<void> {
+    async generateQuestions(target?: SpecCommandTarget): Promise<void> {
         try {
-            const filePath = await this.resolveFeatureFile(featureUri);
+            const filePath = await this.resolveFeatureFile(target);
             if (!filePath) return;
 
-            if (!this.agentManager.supportsFeature(CLIFeature.QUESTIONNAIRE_GENERATION)) {
-                vscode.window.showErrorMessage(
-                    'The selected CLI agent does not support questionnaire generation.'
-                );
-                return;
-            }
-
-            const agent = this.agentManager.getSelectedAgent();
-            if (!agent) {
-                const selected = await this.agentManager.showAgentSelectionQuickPick();
-                if (selected) {
-                    await this.agentManager.switchAgent(selected);
-                } else {
-                    return;
-                }
-            }
+            const agent = await this.resolveAgent(filePath, CLIFeature.QUESTIONNAIRE_GENERATION);
+            if (!agent) return;
 
             await vscode.window.withProgress(
                 {
@@ -53,23 +59,24 @@ export class CLICommands {
                     progress.report({ message: 'Analyzing project...' });
                     
                     const featureContent = await this.readFeatureFile(filePath);
+                    const workspacePath = this.getWorkspacePath(filePath);
                     
                     // Extract important files from feature content
-                    const extractedFiles = await this.extractImportantFiles(featureContent);
+                    const extractedFiles = await this.extractImportantFiles(featureContent, workspacePath);
                     
                     // Prompt user for additional files if none found
                     let importantFiles = extractedFiles;
                     if (extractedFiles.length === 0) {
-                        importantFiles = await this.promptForImportantFiles();
+                        importantFiles = await this.promptForImportantFiles(workspacePath);
                     }
                     
-                    const context = await this.getProjectContext(importantFiles);
+                    const context = await this.getProjectContext(workspacePath, importantFiles);
                     const projectSummary = await this.projectAnalyzer.getProjectSummary(context.cliContext!);
                     
                     progress.report({ message: 'Building command...' });
                     
                     const command = this.commandBuilder.buildQuestionnaireCommand(
-                        agent!,
+                        agent,
                         filePath,
                         context,
                         featureContent,
@@ -79,15 +86,25 @@ export class CLICommands {
                     progress.report({ message: 'Executing CLI command...' });
                     
                     const result = await this.executionService.executeCommand(command, {
-                        agent: agent!,
-                        cancellationToken: token
+                        agent: agent,
+                        cwd: workspacePath,
+                        cancellationToken: token,
+                        onOutput: this.streamOutput('Clarifying questions', filePath, agent)
                     });
+                    this.reportRunDetails(result);
 
                     if (result.success) {
-                        await this.handleSuccessfulGeneration(filePath, result.output, 'questions');
-                        vscode.window.showInformationMessage('Questions generated successfully!');
+                        await this.handleSuccessfulGeneration(filePath, result.output, 'questions', agent.name);
+                        vscode.window.showInformationMessage('Questions generated successfully!', 'Answer Now')
+                            .then(action => {
+                                if (action === 'Answer Now') {
+                                    vscode.commands.executeCommand('codespec.answerQuestions', vscode.Uri.file(filePath));
+                                }
+                            });
+                    } else if (result.cancelled) {
+                        this.keepPartialOutput(result);
                     } else {
-                        await this.handleExecutionError(result, agent!);
+                        await this.handleExecutionError(result, agent);
                     }
                 }
             );
@@ -96,24 +113,26 @@ export class CLICommands {
         }
     }
 
-    async generatePlan(featureUri?: vscode.Uri): Promise<void> {
+    async generatePlan(target?: SpecCommandTarget): Promise<void> {
         try {
-            const filePath = await this.resolveFeatureFile(featureUri);
+            const filePath = await this.resolveFeatureFile(target);
             if (!filePath) return;
 
-            if (!this.agentManager.supportsFeature(CLIFeature.IMPLEMENTATION_PLANNING)) {
-                vscode.window.showErrorMessage(
-                    'The selected CLI agent does not support implementation planning.'
-                );
-                return;
-            }
+            const agent = await this.resolveAgent(filePath, CLIFeature.IMPLEMENTATION_PLANNING);
+            if (!agent) return;
 
-            const agent = this.agentManager.getSelectedAgent();
-            if (!agent) {
-                const selected = await this.agentManager.showAgentSelectionQuickPick();
-                if (selected) {
-                    await this.agentManager.switchAgent(selected);
-                } else {
+            const questionnaire = await this.fileService.loadQuestionnaire(filePath);
+            const unanswered = questionnaire?.questions.filter(question => !question.answer).length ?? 0;
+            if (questionnaire && unanswered > 0) {
+                const action = await vscode.window.showWarningMessage(
+                    `${unanswered} of ${questionnaire.questions.length} clarifying questions are unanswered.`,
+                    'Answer Questions', 'Generate Anyway'
+                );
+                if (action === 'Answer Questions') {
+                    await vscode.commands.executeCommand('codespec.answerQuestions', vscode.Uri.file(filePath));
+                    return;
+                }
+                if (action !== 'Generate Anyway') {
                     return;
                 }
             }
@@ -128,41 +147,49 @@ export class CLICommands {
                     progress.report({ message: 'Analyzing project...' });
                     
                     const featureContent = await this.readFeatureFile(filePath);
+                    const workspacePath = this.getWorkspacePath(filePath);
                     
                     // Extract important files from feature content
-                    const extractedFiles = await this.extractImportantFiles(featureContent);
+                    const extractedFiles = await this.extractImportantFiles(featureContent, workspacePath);
                     
                     // Prompt user for additional files if none found
                     let importantFiles = extractedFiles;
                     if (extractedFiles.length === 0) {
-                        importantFiles = await this.promptForImportantFiles();
+                        importantFiles = await this.promptForImportantFiles(workspacePath);
                     }
                     
-                    const context = await this.getProjectContext(importantFiles);
+                    const context = await this.getProjectContext(workspacePath, importantFiles);
                     const projectSummary = await this.projectAnalyzer.getProjectSummary(context.cliContext!);
                     
                     progress.report({ message: 'Building command...' });
                     
+                    const planningContent = this.getPlanningContent(featureContent, questionnaire);
+
                     const command = this.commandBuilder.buildImplementationCommand(
-                        agent!,
+                        agent,
                         filePath,
                         context,
-                        featureContent,
+                        planningContent,
                         projectSummary
                     );
 
                     progress.report({ message: 'Executing CLI command...' });
                     
                     const result = await this.executionService.executeCommand(command, {
-                        agent: agent!,
-                        cancellationToken: token
+                        agent: agent,
+                        cwd: workspacePath,
+                        cancellationToken: token,
+                        onOutput: this.streamOutput('Implementation plan', filePath, agent)
                     });
+                    this.reportRunDetails(result);
 
                     if (result.success) {
-                        await this.handleSuccessfulGeneration(filePath, result.output, 'plan');
+                        await this.handleSuccessfulGeneration(filePath, result.output, 'plan', agent.name);
                         vscode.window.showInformationMessage('Implementation plan generated successfully!');
+                    } else if (result.cancelled) {
+                        this.keepPartialOutput(result);
                     } else {
-                        await this.handleExecutionError(result, agent!);
+                        await this.handleExecutionError(result, agent);
                     }
                 }
             );
@@ -171,6 +198,190 @@ export class CLICommands {
         }
     }
 
+    /**
+     * Asks the agent for code that implements the spec's plan, then lets the
+     * user review the proposed files as diffs and apply the ones they accept.
+     */
+    async generateCode(target?: SpecCommandTarget): Promise<void> {
+        try {
+            const filePath = await this.resolveFeatureFile(target);
+            if (!filePath) return;
+
+            const agent = await this.resolveAgent(filePath, CLIFeature.CODE_GENERATION);
+            if (!agent) return;
+
+            const plan = await this.fileService.readImplementationPlanText(filePath);
+            if (!plan) {
+                const action = await vscode.window.showWarningMessage(
+                    'This spec has no implementation plan yet. Code generation works best from a plan.',
+                    'Generate Plan', 'Continue Without Plan'
+                );
+                if (action === 'Generate Plan') {
+                    await this.generatePlan(vscode.Uri.file(filePath));
+                    return;
+                }
+                if (action !== 'Continue Without Plan') {
+                    return;
+                }
+            }
+
+            const workspacePath = this.getWorkspacePath(filePath);
+            const output = await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: 'Generating Code',
+                    cancellable: true
+                },
+                async (progress, token) => {
+                    progress.report({ message: 'Analyzing project...' });
+
+                    const featureContent = await this.readFeatureFile(filePath);
+                    const questionnaire = await this.fileService.loadQuestionnaire(filePath);
+
+                    // Extract important files from feature content
+                    const extractedFiles = await this.extractImportantFiles(featureContent, workspacePath);
+
+                    // Prompt user for additional files if none found
+                    let importantFiles = extractedFiles;
+                    if (extractedFiles.length === 0) {
+                        importantFiles = await this.promptForImportantFiles(workspacePath);
+                    }
+
+                    const context = await this.getProjectContext(workspacePath, importantFiles);
+                    const projectSummary = await this.projectAnalyzer.getProjectSummary(context.cliContext!);
+
+                    progress.report({ message: 'Building command...' });
+
+                    const command = this.commandBuilder.buildCodeGenerationCommand(
+                        agent,
+                        filePath,
+                        context,
+                        this.getPlanningContent(featureContent, questionnaire),
+                        projectSummary,
+                        plan || ''
+                    );
+
+                    progress.report({ message: 'Executing CLI command...' });
+
+                    const result = await this.executionService.executeCommand(command, {
+                        agent: agent,
+                        cwd: workspacePath,
+                        cancellationToken: token,
+                        onOutput: this.streamOutput('Code generation', filePath, agent)
+                    });
+                    this.reportRunDetails(result);
+
+                    if (result.cancelled) {
+                        this.keepPartialOutput(result);
+                        return undefined;
+                    }
+                    if (!result.success) {
+                        await this.handleExecutionError(result, agent);
+                        return undefined;
+                    }
+                    return result.output;
+                }
+            );
+
+            if (output === undefined) return;
+
+            const changes = this.codeChangeParser.parse(output);
+            if (changes.length === 0) {
+                vscode.window.showWarningMessage('No file changes found in the agent output. Showing the raw response instead.');
+                const doc = await vscode.workspace.openTextDocument({ content: output, language: 'markdown' });
+                await vscode.window.showTextDocument(doc);
+                return;
+            }
+
+            const folder = this.fileService.getWorkspaceFolder(filePath);
+            const applied = await this.codeChangeReview.review(
+                changes,
+                folder,
+                `Review Generated Code: ${path.basename(filePath, '.md')}`
+            );
+            if (applied) {
+                vscode.window.showInformationMessage(
+                    `Applied changes to ${applied} file${applied === 1 ? '' : 's'}. Review and save the edited files.`
+                );
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to generate code: ${error}`);
+        }
+    }
+
+    /**
+     * Runs the agent's file analysis on any source file and opens the result
+     * next to it.
+     */
+    async analyzeFile(fileUri?: vscode.Uri): Promise<void> {
+        try {
+            const target = fileUri ?? vscode.window.activeTextEditor?.document.uri;
+            if (!target || target.scheme !== 'file') {
+                vscode.window.showInformationMessage('Open or select a file to analyze.');
+                return;
+            }
+            const filePath = target.fsPath;
+
+            const agent = await this.resolveAgent(filePath, CLIFeature.FILE_ANALYSIS);
+            if (!agent) return;
+
+            const workspacePath = this.getWorkspacePath(filePath);
+            const output = await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: `Analyzing ${path.basename(filePath)}`,
+                    cancellable: true
+                },
+                async (progress, token) => {
+                    progress.report({ message: 'Analyzing project...' });
+
+                    // Prefer the editor's text so unsaved changes are analyzed too
+                    const openDocument = vscode.workspace.textDocuments.find(doc => doc.uri.fsPath === filePath);
+                    const fileContent = openDocument ? openDocument.getText() : await fs.promises.readFile(filePath, 'utf8');
+
+                    const context = await this.getProjectContext(workspacePath);
+                    const projectSummary = await this.projectAnalyzer.getProjectSummary(context.cliContext!);
+
+                    progress.report({ message: 'Building command...' });
+
+                    const command = this.commandBuilder.buildFileAnalysisCommand(
+                        agent,
+                        filePath,
+                        context,
+                        fileContent,
+                        projectSummary
+                    );
+
+                    progress.report({ message: 'Executing CLI command...' });
+
+                    const result = await this.executionService.executeCommand(command, {
+                        agent,
+                        cwd: workspacePath,
+                        cancellationToken: token,
+                        onOutput: this.streamOutput('File analysis', filePath, agent)
+                    });
+                    this.reportRunDetails(result);
+
+                    if (result.cancelled) {
+                        this.keepPartialOutput(result);
+                        return undefined;
+                    }
+                    if (!result.success) {
+                        await this.handleExecutionError(result, agent);
+                        return undefined;
+                    }
+                    return result.output;
+                }
+            );
+
+            if (output === undefined) return;
+
+            await this.showFileAnalysis(filePath, output, agent);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to analyze file: ${error}`);
+        }
+    }
+
     async switchAgent(): Promise<void> {
         try {
             const selectedAgent = await this.agentManager.showAgentSelectionQuickPick();
@@ -193,6 +404,50 @@ export class CLICommands {
         }
     }
 
+    /**
+     * Records the agent a spec should run with in its header. Commands on the
+     * spec use it instead of the selected agent.
+     */
+    async setSpecAgent(target?: SpecCommandTarget): Promise<void> {
+        try {
+            const filePath = await this.resolveFeatureFile(target);
+            if (!filePath) return;
+
+            const openDocument = vscode.workspace.textDocuments.find(doc => doc.uri.fsPath === filePath);
+            if (openDocument?.isDirty) {
+                await openDocument.save();
+            }
+
+            const spec = await this.fileService.readFeatureSpec(filePath);
+            const current = spec.data.cliAgent;
+            const items = [
+                ...this.agentManager.getAvailableAgents().map(agent => ({
+                    label: agent.displayName,
+                    description: this.agentManager.getAgentDescription(agent),
+                    agent: agent.name
+                })),
+                { label: 'Not Set', description: 'Use the selected agent', agent: 'Not Set' }
+            ].map(item => item.agent === current ? { ...item, detail: 'Current agent for this spec' } : item);
+
+            const selected = await vscode.window.showQuickPick(items, {
+                title: `Set Agent: ${spec.data.featureName || path.basename(filePath, '.md')}`,
+                placeHolder: 'Select the CLI agent for this spec'
+            });
+            if (!selected || selected.agent === current) return;
+
+            spec.data.cliAgent = selected.agent;
+            await this.fileService.writeFeatureSpec(filePath, spec);
+
+            vscode.window.showInformationMessage(
+                selected.agent === 'Not Set'
+                    ? 'This spec now uses the selected agent.'
+                    : `This spec now uses ${selected.label}.`
+            );
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to set the spec agent: ${error}`);
+        }
+    }
+
     async refreshAgents(): Promise<void> {
         try {
             await this.agentManager.refreshAgents();
@@ -203,6 +458,15 @@ export class CLICommands {
 
     async analyzeProjectContext(): Promise<void> {
         try {
+            const folder = (vscode.workspace.workspaceFolders?.length ?? 0) > 1
+                ? await vscode.window.showWorkspaceFolderPick({ placeHolder: 'Select a workspace folder to analyze' })
+                : vscode.workspace.workspaceFolders?.[0];
+            if (!folder) {
+                vscode.window.showErrorMessage('No workspace folder found');
+                return;
+            }
+            const workspacePath = folder.uri.fsPath;
+
             await vscode.window.withProgress(
                 {
                     location: vscode.ProgressLocation.Notification,
@@ -213,7 +477,7 @@ export class CLICommands {
                     progress.report({ message: 'Selecting important files...' });
                     
                     // Prompt user to select important files for analysis
-                    const importantFiles = await this.promptForImportantFiles();
+                    const importantFiles = await this.promptForImportantFiles(workspacePath);
                     
                     if (importantFiles.length === 0) {
                         vscode.window.showInformationMessage('No files selected for analysis.');
@@ -222,7 +486,7 @@ export class CLICommands {
                     
                     progress.report({ message: 'Analyzing project and files...' });
                     
-                    const context = await this.getProjectContext(importantFiles);
+                    const context = await this.getProjectContext(workspacePath, importantFiles);
                     
                     progress.report({ message: 'Generating context report...' });
                     
@@ -282,14 +546,16 @@ export class CLICommands {
         });
     }
 
-    async runInTerminal(featureUri?: vscode.Uri): Promise<void> {
+    async runInTerminal(target?: SpecCommandTarget): Promise<void> {
         try {
-            const filePath = await this.resolveFeatureFile(featureUri);
+            const filePath = await this.resolveFeatureFile(target);
             if (!filePath) return;
 
-            const agent = this.agentManager.getSelectedAgent();
-            if (!agent) {
-                vscode.window.showErrorMessage('No CLI agent selected. Please select an agent first.');
+            const agent = await this.resolveAgent(filePath);
+            if (!agent) return;
+
+            if (agent.endpoint) {
+                vscode.window.showErrorMessage(`${agent.displayName} is served over HTTP and cannot run in a terminal.`);
                 return;
             }
 
@@ -309,48 +575,61 @@ export class CLICommands {
             if (!selectedOp) return;
 
             const featureContent = await this.readFeatureFile(filePath);
+            const workspacePath = this.getWorkspacePath(filePath);
             
             // Extract important files from feature content
-            const extractedFiles = await this.extractImportantFiles(featureContent);
+            const extractedFiles = await this.extractImportantFiles(featureContent, workspacePath);
             
             // Prompt user for additional files if none found
             let importantFiles = extractedFiles;
             if (extractedFiles.length === 0) {
-                importantFiles = await this.promptForImportantFiles();
+                importantFiles = await this.promptForImportantFiles(workspacePath);
             }
 
-            const context = await this.getProjectContext(importantFiles);
+            const context = await this.getProjectContext(workspacePath, importantFiles);
             const projectSummary = await this.projectAnalyzer.getProjectSummary(context.cliContext!);
 
-            let command: string;
+            // People read the terminal, so ask for plain text rather than structured events
+            const terminalAgent: CLIAgentInfo = { ...agent, outputFormat: 'text' };
+            let command: AgentInvocation;
             
             switch (selectedOp.value) {
                 case 'questionnaire':
                     command = this.commandBuilder.buildQuestionnaireCommand(
-                        agent, filePath, context, featureContent, projectSummary
+                        terminalAgent, filePath, context, featureContent, projectSummary
                     );
                     break;
                 case 'implementation':
                     command = this.commandBuilder.buildImplementationCommand(
-                        agent, filePath, context, featureContent, projectSummary
+                        terminalAgent, filePath, context, featureContent, projectSummary
                     );
                     break;
                 case 'codegen':
                     command = this.commandBuilder.buildCodeGenerationCommand(
-                        agent, filePath, context, featureContent, projectSummary, ''
+                        terminalAgent, filePath, context, featureContent, projectSummary,
+                        (await this.fileService.readImplementationPlanText(filePath)) || ''
                     );
                     break;
-                case 'analysis':
+                case 'analysis': {
+                    const [sourceUri] = await vscode.window.showOpenDialog({
+                        title: 'Select File to Analyze',
+                        defaultUri: workspacePath ? vscode.Uri.file(workspacePath) : undefined,
+                        canSelectMany: false
+                    }) ?? [];
+                    if (!sourceUri) return;
+
                     command = this.commandBuilder.buildFileAnalysisCommand(
-                        agent, filePath, context, featureContent, projectSummary
+                        terminalAgent, sourceUri.fsPath, context, await fs.promises.readFile(sourceUri.fsPath, 'utf8'), projectSummary
                     );
                     break;
+                }
                 default:
                     return;
             }
 
             await this.executionService.executeCommandInTerminal(command, {
                 terminalName: `CodeSpec - ${agent.displayName}`,
+                cwd: workspacePath,
                 showTerminal: true
             });
 
@@ -361,9 +640,18 @@ export class CLICommands {
 
     // Helper methods
 
-    private async extractImportantFiles(featureContent: string): Promise<string[]> {
+    /**
+     * Root of the workspace folder that owns the given spec, falling back to
+     * the first folder for files outside the workspace.
+     */
+    private getWorkspacePath(filePath: string): string | undefined {
+        const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath))
+            ?? vscode.workspace.workspaceFolders?.[0];
+        return folder?.uri.fsPath;
+    }
+
+    private async extractImportantFiles(featureContent: string, workspacePath?: string): Promise<string[]> {
         const importantFiles: string[] = [];
-        const workspacePath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
         
         if (!workspacePath) {
             return importantFiles;
@@ -402,8 +690,7 @@ export class CLICommands {
         return [...new Set(importantFiles)];
     }
 
-    private async promptForImportantFiles(): Promise<string[]> {
-        const workspacePath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    private async promptForImportantFiles(workspacePath?: string): Promise<string[]> {
         if (!workspacePath) {
             return [];
         }
@@ -491,9 +778,18 @@ ${file.content.length > 500 ? file.content.substring(0, 500) + '\n\n[Content tru
         return report;
     }
 
-    private async resolveFeatureFile(featureUri?: vscode.Uri): Promise<string | undefined> {
-        if (featureUri) {
-            return featureUri.fsPath;
+    private async resolveFeatureFile(target?: SpecCommandTarget): Promise<string | undefined> {
+        if (target instanceof vscode.Uri) {
+            return target.fsPath;
+        }
+
+        // Tree items pass themselves
+        if (target?.resourceUri) {
+            return target.resourceUri.fsPath;
+        }
+
+        if (target?.specPath) {
+            return target.specPath;
         }
 
         // Try to get active editor
@@ -523,8 +819,7 @@ ${file.content.length > 500 ? file.content.substring(0, 500) + '\n\n[Content tru
         }
     }
 
-    private async getProjectContext(importantFiles?: string[]): Promise<ProjectContext> {
-        const workspacePath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    private async getProjectContext(workspacePath: string | undefined, importantFiles?: string[]): Promise<ProjectContext> {
         if (!workspacePath) {
             throw new Error('No workspace folder found');
         }
@@ -550,11 +845,89 @@ ${file.content.length > 500 ? file.content.substring(0, 500) + '\n\n[Content tru
         };
     }
 
+    /**
+     * The agent named in the spec header, falling back to the selected agent.
+     * A spec's agent is used for that run only and does not change the
+     * selection. Asks the user to pick an agent when neither applies.
+     */
+    private async resolveAgent(filePath: string, feature?: CLIFeature): Promise<CLIAgentInfo | undefined> {
+        let agent: CLIAgentInfo | undefined;
+
+        const specAgent = filePath.endsWith('.md')
+            ? this.specParser.parse(await this.readFeatureFile(filePath)).data.cliAgent
+            : 'Not Set';
+        if (specAgent !== 'Not Set') {
+            agent = this.agentManager.findAgent(specAgent);
+            if (!agent?.isAvailable) {
+                const action = await vscode.window.showWarningMessage(
+                    `This spec uses ${agent?.displayName ?? specAgent}, which is not available.`,
+                    'Use Selected Agent'
+                );
+                if (action !== 'Use Selected Agent') {
+                    return undefined;
+                }
+                agent = undefined;
+            }
+        }
+
+        if (!agent) {
+            if (!this.agentManager.getSelectedAgent()) {
+                const selected = await this.agentManager.showAgentSelectionQuickPick();
+                if (!selected) {
+                    return undefined;
+                }
+                await this.agentManager.switchAgent(selected);
+            }
+            agent = this.agentManager.getSelectedAgent() ?? undefined;
+        }
+
+        if (agent && feature && !agent.supportedFeatures.includes(feature)) {
+            vscode.window.showErrorMessage(`${agent.displayName} does not support ${FEATURE_LABELS[feature]}.`);
+            return undefined;
+        }
+        return agent;
+    }
+
+    private async showFileAnalysis(filePath: string, output: string, agent: CLIAgentInfo): Promise<void> {
+        const relativePath = vscode.workspace.asRelativePath(filePath, false);
+        const content = `# File Analysis: ${relativePath}
+
+*Generated on: ${new Date().toISOString()} using ${agent.displayName}*
+
+[Open ${relativePath}](${vscode.Uri.file(filePath).toString()})
+
+${output}
+`;
+
+        const doc = await vscode.workspace.openTextDocument({ content, language: 'markdown' });
+        await vscode.window.showTextDocument(doc, { viewColumn: vscode.ViewColumn.Beside, preview: false });
+    }
+
+    /**
+     * The spec as the user wrote it plus any answered clarifying questions,
+     * leaving out previously generated output.
+     */
+    private getPlanningContent(featureContent: string, questionnaire?: Questionnaire): string {
+        const answers = questionnaire ? this.questionnaireParser.formatAnswered(questionnaire.questions) : '';
+        return [this.specParser.getAuthoredContent(featureContent), answers]
+            .filter(part => part.length > 0)
+            .join('\n\n');
+    }
+
     private async handleSuccessfulGeneration(
         filePath: string,
         output: string,
-        type: 'questions' | 'plan'
+        type: GeneratedArtifactType,
+        agentName: string
     ): Promise<void> {
+        const outputMode = vscode.workspace
+            .getConfiguration('codespec', vscode.Uri.file(filePath))
+            .get<string>('generation.outputMode', 'separateFile');
+        if (outputMode === 'specSection') {
+            await this.writeIntoSpec(filePath, output, type, agentName);
+            return;
+        }
+
         // Create output file
         const dir = path.dirname(filePath);
         const basename = path.basename(filePath, path.extname(filePath));
@@ -579,7 +952,29 @@ ${file.content.length > 500 ? file.content.substring(0, 500) + '\n\n[Content tru
         }
     }
 
-    private formatOutput(output: string, type: 'questions' | 'plan'): string {
+    private async writeIntoSpec(
+        filePath: string,
+        output: string,
+        type: GeneratedArtifactType,
+        agentName: string
+    ): Promise<void> {
+        // Flush unsaved edits so the rewrite does not clobber them
+        const openDocument = vscode.workspace.textDocuments.find(doc => doc.uri.fsPath === filePath);
+        if (openDocument?.isDirty) {
+            await openDocument.save();
+        }
+
+        await this.fileService.writeGeneratedSection(filePath, type, output, agentName);
+
+        // Reveal the section that was just written
+        const heading = type === 'questions' ? SPEC_SECTIONS.CLARIFYING_QUESTIONS : SPEC_SECTIONS.IMPLEMENTATION_PLAN;
+        const doc = await vscode.workspace.openTextDocument(filePath);
+        const line = doc.getText().split(/\r?\n/).findIndex(text => /^##\s/.test(text) && text.substring(2).trim() === heading);
+        const position = new vscode.Position(Math.max(line, 0), 0);
+        await vscode.window.showTextDocument(doc, { selection: new vscode.Range(position, position) });
+    }
+
+    private formatOutput(output: string, type: GeneratedArtifactType): string {
         const timestamp = new Date().toISOString();
         const title = type === 'questions' ? 'Generated Questions' : 'Implementation Plan';
         
@@ -594,6 +989,57 @@ ${output}
 `;
     }
 
+    /**
+     * Clears and reveals the agent output channel and returns a listener that
+     * appends the agent's output to it as it arrives.
+     */
+    private streamOutput(title: string, filePath: string, agent: CLIAgentInfo): (chunk: string) => void {
+        this.outputChannel.clear();
+        this.outputChannel.appendLine(`# ${title}: ${vscode.workspace.asRelativePath(filePath, false)} (${agent.displayName})`);
+        this.outputChannel.appendLine('');
+        this.outputChannel.show(true);
+        return chunk => this.outputChannel.append(chunk);
+    }
+
+    // Structured output carries usage and tool details; plain text has none
+    private reportRunDetails(result: CLIExecutionResult): void {
+        const details: string[] = [];
+        if (result.toolEvents && result.toolEvents.length > 0) {
+            details.push(`Tool calls: ${result.toolEvents.map(event => event.isError ? `${event.name} (failed)` : event.name).join(', ')}`);
+        }
+        if (result.usage) {
+            const cost = result.usage.costUsd !== undefined ? ` · $${result.usage.costUsd.toFixed(4)}` : '';
+            details.push(`Tokens: ${result.usage.inputTokens} in / ${result.usage.outputTokens} out${cost}`);
+        }
+        if (result.sessionId) {
+            details.push(`Session: ${result.sessionId}`);
+        }
+
+        if (details.length > 0) {
+            this.outputChannel.appendLine('');
+            details.forEach(line => this.outputChannel.appendLine(`[${line}]`));
+        }
+    }
+
+    // Nothing is written to the spec; the partial output stays in the output channel
+    private keepPartialOutput(result: CLIExecutionResult): void {
+        if (result.output.trim().length === 0) {
+            return;
+        }
+
+        this.outputChannel.appendLine('');
+        this.outputChannel.appendLine('[Cancelled - output above is incomplete]');
+        vscode.window.showWarningMessage(
+            'Generation cancelled. The partial output is kept in the CodeSpec Agent Output channel.',
+            'Open as Document'
+        ).then(async action => {
+            if (action === 'Open as Document') {
+                const document = await vscode.workspace.openTextDocument({ content: result.output, language: 'markdown' });
+                await vscode.window.showTextDocument(document, { preview: false });
+            }
+        });
+    }
+
     private async handleExecutionError(result: any, agent: any): Promise<void> {
         let errorMessage = `Command failed: ${result.error || 'Unknown error'}`;
         
@@ -617,22 +1063,33 @@ ${output}
         if (agent.name === 'claude-code') {
             instructions = `# Claude Code Authentication
 
-To authenticate with Claude Code:
+To authenticate with Claude Code, either:
 
-1. Run: \`claude auth login\`
-2. Follow the prompts to log in
-3. Verify authentication: \`claude auth status\`
+1. Run: \`claude\`
+2. Type \`/login\` and follow the prompts to log in
+
+or set the \`ANTHROPIC_API_KEY\` environment variable and restart VS Code.
 
 After authentication, try the CodeSpec operation again.`;
         } else if (agent.name === 'gemini-cli') {
             instructions = `# Gemini CLI Authentication
 
-To authenticate with Google Cloud CLI:
+To authenticate with Gemini CLI, either:
+
+1. Run: \`gemini\`
+2. Choose "Login with Google" and follow the browser authentication flow
+
+or set the \`GEMINI_API_KEY\` environment variable to a key from Google AI Studio and restart VS Code.
+
+After authentication, try the CodeSpec operation again.`;
+        } else if (agent.name === 'gemini-vertex') {
+            instructions = `# Gemini CLI (Vertex AI) Authentication
+
+To authenticate with Vertex AI:
 
-1. Run: \`gcloud auth login\`
+1. Run: \`gcloud auth application-default login\`
 2. Follow the browser authentication flow
-3. Verify authentication: \`gcloud auth list\`
-4. Ensure AI Platform is enabled: \`gcloud services enable aiplatform.googleapis.com\`
+3. Ensure Vertex AI is enabled: \`gcloud services enable aiplatform.googleapis.com\`
 
 After authentication, try the CodeSpec operation again.`;
         }
@@ -646,5 +1103,6 @@ After authentication, try the CodeSpec operation again.`;
 
     dispose(): void {
         this.executionService.dispose();
+        this.outputChannel.dispose();
     }
 }
\ No newline at end of file
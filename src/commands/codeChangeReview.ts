@@ -0,0 +1,154 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ProposedFileChange } from '../models/featureSpec';
+import { ProposedChangeProvider } from '../providers/proposedChangeProvider';
+
+interface ResolvedChange {
+    change: ProposedFileChange;
+    target: vscode.Uri;
+    isNew: boolean;
+    original: vscode.Uri;
+    proposed: vscode.Uri;
+}
+
+type ChangeItem = vscode.QuickPickItem & { resolved: ResolvedChange };
+
+/**
+ * Lets the user preview generated file changes in the diff editor and pick
+ * which ones to apply. Accepted changes go through a single WorkspaceEdit, so
+ * they land as unsaved edits that can be reviewed or undone.
+ */
+export class CodeChangeReview {
+    private static readonly PREVIEW_BUTTON: vscode.QuickInputButton = {
+        iconPath: new vscode.ThemeIcon('diff'),
+        tooltip: 'Preview Changes'
+    };
+
+    constructor(private proposedChangeProvider: ProposedChangeProvider) {}
+
+    /**
+     * Returns the number of files changed, or undefined when the user cancels.
+     */
+    async review(changes: ProposedFileChange[], folder: vscode.WorkspaceFolder, title: string): Promise<number | undefined> {
+        const session = this.proposedChangeProvider.beginSession();
+        const resolved: ResolvedChange[] = [];
+        const rejected: string[] = [];
+
+        for (const change of changes) {
+            const target = this.resolveTarget(change.path, folder);
+            if (!target) {
+                rejected.push(change.path);
+                continue;
+            }
+
+            const current = await this.readCurrentContent(target);
+            if (current === change.content) continue;
+
+            const proposed = this.proposedChangeProvider.setContent(session, change.path, change.content);
+            const original = current === undefined
+                ? this.proposedChangeProvider.setContent(session, `${change.path}.original`, '')
+                : target;
+            resolved.push({ change, target, isNew: current === undefined, original, proposed });
+        }
+
+        if (rejected.length > 0) {
+            vscode.window.showWarningMessage(`Ignored changes outside the workspace folder: ${rejected.join(', ')}`);
+        }
+
+        try {
+            if (resolved.length === 0) {
+                vscode.window.showInformationMessage('The generated code does not change any files.');
+                return 0;
+            }
+
+            await this.showDiff(resolved[0]);
+            const accepted = await this.pickChanges(resolved, title);
+            if (!accepted) {
+                return undefined;
+            }
+
+            return accepted.length > 0 ? await this.apply(accepted) : 0;
+        } finally {
+            this.proposedChangeProvider.clear(resolved.flatMap(item => [item.proposed, item.original]));
+        }
+    }
+
+    private pickChanges(resolved: ResolvedChange[], title: string): Promise<ResolvedChange[] | undefined> {
+        return new Promise(resolve => {
+            const picker = vscode.window.createQuickPick<ChangeItem>();
+            const items = resolved.map(item => ({
+                label: item.change.path,
+                description: item.isNew ? 'new file' : 'modified',
+                buttons: [CodeChangeReview.PREVIEW_BUTTON],
+                resolved: item
+            }));
+
+            picker.title = title;
+            picker.placeholder = 'Check the files to apply. Use the diff button to preview a file.';
+            picker.canSelectMany = true;
+            picker.ignoreFocusOut = true;
+            picker.items = items;
+            picker.selectedItems = items;
+
+            let result: ResolvedChange[] | undefined;
+            picker.onDidTriggerItemButton(event => this.showDiff(event.item.resolved));
+            picker.onDidAccept(() => {
+                result = picker.selectedItems.map(item => item.resolved);
+                picker.hide();
+            });
+            picker.onDidHide(() => {
+                picker.dispose();
+                resolve(result);
+            });
+            picker.show();
+        });
+    }
+
+    private async showDiff(item: ResolvedChange): Promise<void> {
+        const label = item.isNew ? `${item.change.path} (new file)` : `${item.change.path} (proposed)`;
+        await vscode.commands.executeCommand('vscode.diff', item.original, item.proposed, label, {
+            preview: true,
+            preserveFocus: true
+        });
+    }
+
+    private async apply(accepted: ResolvedChange[]): Promise<number> {
+        const edit = new vscode.WorkspaceEdit();
+
+        for (const item of accepted) {
+            if (item.isNew) {
+                edit.createFile(item.target, { ignoreIfExists: true });
+                edit.insert(item.target, new vscode.Position(0, 0), item.change.content);
+            } else {
+                const document = await vscode.workspace.openTextDocument(item.target);
+                const fullRange = new vscode.Range(document.positionAt(0), document.positionAt(document.getText().length));
+                edit.replace(item.target, fullRange, item.change.content);
+            }
+        }
+
+        if (!(await vscode.workspace.applyEdit(edit))) {
+            throw new Error('VS Code rejected the workspace edit');
+        }
+        return accepted.length;
+    }
+
+    // Only paths inside the workspace folder are accepted
+    private resolveTarget(relativePath: string, folder: vscode.WorkspaceFolder): vscode.Uri | undefined {
+        const absolute = path.resolve(folder.uri.fsPath, relativePath);
+        const relative = path.relative(folder.uri.fsPath, absolute);
+        if (relative.length === 0 || relative.startsWith('..') || path.isAbsolute(relative)) {
+            return undefined;
+        }
+        return vscode.Uri.file(absolute);
+    }
+
+    private async readCurrentContent(target: vscode.Uri): Promise<string | undefined> {
+        try {
+            await vscode.workspace.fs.stat(target);
+        } catch {
+            return undefined;
+        }
+        const document = await vscode.workspace.openTextDocument(target);
+        return document.getText();
+    }
+}
@@ -0,0 +1,277 @@
+import * as vscode from 'vscode';
+import { FileService } from '../services/fileService';
+import { TemplateService } from '../services/templateService';
+import { AgentManager } from '../services/agentManager';
+import { SUPPORTED_AGENTS } from '../models/cliAgent';
+import { FeatureCLIAgent, FeatureTemplate, TemplateVariable } from '../models/featureSpec';
+import { InputStep, MultiStepInput } from '../utils/multiStepInput';
+
+export interface FeatureWizardResult {
+    featureName: string;
+    template: FeatureTemplate;
+    variables: Record<string, string>;
+    description?: string;
+    acceptanceCriteria: string[];
+    importantFiles: string[];
+    technicalConsiderations?: string;
+    cliAgent: FeatureCLIAgent;
+}
+
+interface WizardState {
+    featureName?: string;
+    template?: FeatureTemplate;
+    templateVariables: TemplateVariable[];
+    variables: Record<string, string>;
+    description?: string;
+    acceptanceCriteria: string[];
+    importantFiles: string[];
+    technicalConsiderations?: string;
+    cliAgent?: FeatureCLIAgent;
+}
+
+type AgentItem = vscode.QuickPickItem & { agent: FeatureCLIAgent };
+type FileItem = vscode.QuickPickItem & { relativePath: string };
+
+/**
+ * Collects everything a new spec needs up front: name, template, template
+ * variables, description, acceptance criteria, important files and agent.
+ */
+export class FeatureWizard {
+    private static readonly TITLE = 'Create Feature Specification';
+    // Steps after the template variables: description, criteria, files, technical notes, agent
+    private static readonly TRAILING_STEPS = 5;
+    private static readonly FILE_EXCLUDES = '**/{node_modules,.git,dist,out,build,coverage}/**';
+    private static readonly MAX_FILES = 5000;
+
+    constructor(
+        private fileService: FileService,
+        private templateService: TemplateService,
+        private agentManager: AgentManager
+    ) {}
+
+    /**
+     * Runs the wizard for a spec created inside `directory`. Returns undefined
+     * when the user cancels.
+     */
+    async run(directory: string): Promise<FeatureWizardResult | undefined> {
+        const folder = this.fileService.getWorkspaceFolder(directory);
+        const templates = await this.templateService.listTemplates(folder);
+        if (templates.length === 0) {
+            throw new Error('No spec templates found');
+        }
+
+        const state: WizardState = {
+            template: templates.length === 1 ? templates[0] : undefined,
+            templateVariables: templates.length === 1 ? await this.templateService.getTemplateVariables(templates[0]) : [],
+            variables: {},
+            acceptanceCriteria: [],
+            importantFiles: []
+        };
+        let fileItems: FileItem[] | undefined;
+
+        // The template step is skipped when there is only one template
+        const stepsBeforeVariables = templates.length > 1 ? 2 : 1;
+        const stepAfterVariables = () => stepsBeforeVariables + state.templateVariables.length;
+        const totalSteps = () => stepAfterVariables() + FeatureWizard.TRAILING_STEPS;
+
+        const pickName: InputStep = async input => {
+            state.featureName = await input.showInputBox({
+                title: FeatureWizard.TITLE,
+                step: 1,
+                totalSteps: totalSteps(),
+                value: state.featureName,
+                prompt: 'Enter feature name',
+                placeholder: 'my-awesome-feature',
+                validate: value => {
+                    const validation = this.fileService.validateFileName(value);
+                    return validation.valid ? undefined : validation.error;
+                }
+            });
+            if (templates.length > 1) {
+                return pickTemplate;
+            }
+            return state.templateVariables.length > 0 ? askVariable(0) : askDescription;
+        };
+
+        const pickTemplate: InputStep = async input => {
+            const items = templates.map(template => this.templateService.getTemplateQuickPickItem(template));
+            const [selected] = await input.showQuickPick({
+                title: FeatureWizard.TITLE,
+                step: 2,
+                totalSteps: totalSteps(),
+                placeholder: 'Select a template for the new spec',
+                items,
+                activeItems: items.filter(item => item.template === state.template),
+                matchOnDescription: true
+            });
+            state.template = selected.template;
+            state.templateVariables = await this.templateService.getTemplateVariables(selected.template);
+            return state.templateVariables.length > 0 ? askVariable(0) : askDescription;
+        };
+
+        const askVariable = (index: number): InputStep => async input => {
+            const variable = state.templateVariables[index];
+            const step = stepsBeforeVariables + index + 1;
+            const title = `${FeatureWizard.TITLE}: ${state.template!.name}`;
+
+            if (variable.options && variable.options.length > 0) {
+                const options = variable.required ? variable.options : [...variable.options, ''];
+                const items = options.map(option => ({ label: option || '(none)', value: option }));
+                const [selected] = await input.showQuickPick({
+                    title,
+                    step,
+                    totalSteps: totalSteps(),
+                    placeholder: variable.prompt || variable.placeholder || `Select ${variable.name}`,
+                    items,
+                    activeItems: items.filter(item => item.value === (state.variables[variable.name] ?? variable.default))
+                });
+                state.variables[variable.name] = selected.value;
+            } else {
+                state.variables[variable.name] = await input.showInputBox({
+                    title,
+                    step,
+                    totalSteps: totalSteps(),
+                    value: state.variables[variable.name] ?? variable.default,
+                    prompt: variable.prompt || variable.name,
+                    placeholder: variable.placeholder,
+                    validate: value => variable.required && value.trim().length === 0
+                        ? `${variable.prompt || variable.name} is required`
+                        : undefined
+                });
+            }
+
+            return index + 1 < state.templateVariables.length ? askVariable(index + 1) : askDescription;
+        };
+
+        const askDescription: InputStep = async input => {
+            state.description = await input.showInputBox({
+                title: FeatureWizard.TITLE,
+                step: stepAfterVariables() + 1,
+                totalSteps: totalSteps(),
+                value: state.description,
+                prompt: 'What problem does this feature solve, and for whom? (optional)',
+                placeholder: 'Let users reset their password from the login screen'
+            });
+            return askCriterion(0);
+        };
+
+        // One input per criterion; an empty entry moves on to the next step
+        const askCriterion = (index: number): InputStep => async input => {
+            const value = await input.showInputBox({
+                title: `${FeatureWizard.TITLE}: Acceptance Criterion ${index + 1}`,
+                step: stepAfterVariables() + 2,
+                totalSteps: totalSteps(),
+                value: state.acceptanceCriteria[index],
+                prompt: index === 0
+                    ? 'Describe one acceptance criterion. Leave empty to skip.'
+                    : 'Add another acceptance criterion, or leave empty to continue.'
+            });
+
+            if (value.trim().length === 0) {
+                state.acceptanceCriteria = state.acceptanceCriteria.slice(0, index);
+                return pickFiles;
+            }
+
+            state.acceptanceCriteria[index] = value.trim();
+            return askCriterion(index + 1);
+        };
+
+        const pickFiles: InputStep = async input => {
+            if (!fileItems) {
+                fileItems = await this.findWorkspaceFiles(folder);
+            }
+            const selected = await input.showQuickPick({
+                title: FeatureWizard.TITLE,
+                step: stepAfterVariables() + 3,
+                totalSteps: totalSteps(),
+                placeholder: 'Select files the agent should analyze (optional)',
+                items: fileItems,
+                selectedItems: fileItems.filter(item => state.importantFiles.includes(item.relativePath)),
+                canPickMany: true,
+                matchOnDescription: true
+            });
+            state.importantFiles = selected.map(item => item.relativePath);
+            return askTechnicalConsiderations;
+        };
+
+        const askTechnicalConsiderations: InputStep = async input => {
+            state.technicalConsiderations = await input.showInputBox({
+                title: FeatureWizard.TITLE,
+                step: stepAfterVariables() + 4,
+                totalSteps: totalSteps(),
+                value: state.technicalConsiderations,
+                prompt: 'Technical constraints or architectural decisions (optional)'
+            });
+            return pickAgent;
+        };
+
+        const pickAgent: InputStep = async input => {
+            const items = this.getAgentItems();
+            const current = state.cliAgent ?? this.agentManager.getSelectedAgent()?.name;
+            const [selected] = await input.showQuickPick({
+                title: FeatureWizard.TITLE,
+                step: stepAfterVariables() + 5,
+                totalSteps: totalSteps(),
+                placeholder: 'Select the CLI agent for this spec',
+                items,
+                activeItems: items.filter(item => item.agent === current)
+            });
+            state.cliAgent = selected.agent;
+        };
+
+        const completed = await MultiStepInput.run(pickName);
+        if (!completed || !state.featureName || !state.template) {
+            return undefined;
+        }
+
+        return {
+            featureName: state.featureName,
+            template: state.template,
+            variables: state.variables,
+            description: state.description?.trim() || undefined,
+            acceptanceCriteria: state.acceptanceCriteria,
+            importantFiles: state.importantFiles,
+            technicalConsiderations: state.technicalConsiderations?.trim() || undefined,
+            cliAgent: state.cliAgent || 'Not Set'
+        };
+    }
+
+    private getAgentItems(): AgentItem[] {
+        const detected = this.agentManager.getAvailableAgents();
+        // Agents declared in settings only show up once detected
+        const configs = [...SUPPORTED_AGENTS, ...detected.filter(info => !SUPPORTED_AGENTS.some(config => config.name === info.name))];
+        const items: AgentItem[] = configs.map(config => {
+            const agent = detected.find(info => info.name === config.name);
+            return {
+                label: config.displayName,
+                description: agent ? this.agentManager.getAgentDescription(agent) : 'Not detected',
+                agent: config.name
+            };
+        });
+
+        items.push({ label: 'Not Set', description: 'Decide later', agent: 'Not Set' });
+        return items;
+    }
+
+    private async findWorkspaceFiles(folder: vscode.WorkspaceFolder): Promise<FileItem[]> {
+        const featuresPath = this.fileService.getFeaturesPath(folder);
+        const uris = await vscode.workspace.findFiles(
+            new vscode.RelativePattern(folder, '**/*'),
+            FeatureWizard.FILE_EXCLUDES,
+            FeatureWizard.MAX_FILES
+        );
+
+        return uris
+            .filter(uri => !uri.fsPath.startsWith(featuresPath))
+            .map(uri => {
+                const relativePath = vscode.workspace.asRelativePath(uri, false);
+                const separator = relativePath.lastIndexOf('/');
+                return {
+                    label: separator === -1 ? relativePath : relativePath.substring(separator + 1),
+                    description: separator === -1 ? undefined : relativePath.substring(0, separator),
+                    relativePath
+                };
+            })
+            .sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+    }
+}
@@ -0,0 +1,524 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { FileService } from '../services/fileService';
+import { FeatureSpecItem, FeatureStatus, ParsedFeatureSpec, PlanTask, STATUS_TRANSITIONS } from '../models/featureSpec';
+import { InputStep, MultiStepInput } from '../utils/multiStepInput';
+
+export type SpecCommandTarget = FeatureSpecItem | vscode.Uri | undefined;
+
+export class SpecCommands {
+    constructor(private fileService: FileService) {}
+
+    async changeStatus(target?: SpecCommandTarget): Promise<void> {
+        try {
+            const filePath = await this.resolveSpecPath(target);
+            if (!filePath) return;
+
+            const spec = await this.readSpec(filePath);
+            const allowed = STATUS_TRANSITIONS[spec.data.status];
+
+            const selected = await vscode.window.showQuickPick(
+                allowed.map(status => ({ label: status, status })),
+                {
+                    title: `Change Status: ${spec.data.featureName || path.basename(filePath, '.md')}`,
+                    placeHolder: `Current status: ${spec.data.status}`
+                }
+            );
+
+            if (!selected) return;
+
+            await this.applyStatus(filePath, spec, selected.status);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to change status: ${error}`);
+        }
+    }
+
+    async transitionTo(target: SpecCommandTarget, status: FeatureStatus): Promise<void> {
+        try {
+            const filePath = await this.resolveSpecPath(target);
+            if (!filePath) return;
+
+            const spec = await this.readSpec(filePath);
+            const current = spec.data.status;
+
+            if (!STATUS_TRANSITIONS[current].includes(status)) {
+                const allowed = STATUS_TRANSITIONS[current].join(', ');
+                vscode.window.showWarningMessage(
+                    `Cannot move from "${current}" to "${status}". Allowed: ${allowed}.`
+                );
+                return;
+            }
+
+            await this.applyStatus(filePath, spec, status);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to change status: ${error}`);
+        }
+    }
+
+    async createEpic(target?: SpecCommandTarget): Promise<void> {
+        try {
+            let parentDirectory = this.getEpicDirectory(target);
+            if (!parentDirectory) {
+                const folder = await this.pickWorkspaceFolder(target);
+                if (!folder) return;
+                parentDirectory = this.fileService.getFeaturesPath(folder);
+            }
+
+            const name = await vscode.window.showInputBox({
+                prompt: 'Enter epic name',
+                placeHolder: 'checkout-redesign',
+                validateInput: (value) => {
+                    const validation = this.fileService.validateFileName(value);
+                    return validation.valid ? undefined : validation.error;
+                }
+            });
+
+            if (!name) return;
+
+            await this.fileService.ensureFeaturesDirectory(this.fileService.getWorkspaceFolder(parentDirectory));
+            const epicPath = await this.fileService.createEpic(name, parentDirectory);
+            vscode.window.showInformationMessage(`Epic "${path.basename(epicPath)}" created`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to create epic: ${error}`);
+        }
+    }
+
+    async moveToEpic(target?: SpecCommandTarget): Promise<void> {
+        try {
+            const filePath = await this.resolveSpecPath(target);
+            if (!filePath) return;
+
+            const folder = this.fileService.getWorkspaceFolder(filePath);
+            const epics = await this.fileService.listEpics(folder);
+            if (epics.length === 0) {
+                vscode.window.showInformationMessage('No epics found. Use "New Epic" to create one first.');
+                return;
+            }
+
+            const targetDirectory = await this.pickEpicDirectory('Move to Epic', folder, path.dirname(filePath));
+            if (!targetDirectory) return;
+
+            const newPath = await this.fileService.moveFeatureFile(filePath, targetDirectory);
+            vscode.window.showInformationMessage(
+                `Moved "${path.basename(newPath, '.md')}" to ${this.describeDirectory(targetDirectory)}`
+            );
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to move feature: ${error}`);
+        }
+    }
+
+    async renameSpec(target?: SpecCommandTarget): Promise<void> {
+        try {
+            const filePath = await this.resolveSpecPath(target);
+            if (!filePath) return;
+
+            const currentName = path.basename(filePath, '.md');
+            const newName = await this.promptForSpecName('Enter new feature name', currentName);
+            if (!newName) return;
+
+            const spec = await this.readSpec(filePath);
+            const wasOpen = await this.closeEditors(filePath);
+            const newPath = await this.fileService.renameFeatureFile(filePath, newName);
+
+            spec.data.featureName = newName.trim();
+            spec.data.lastUpdated = this.today();
+            spec.metadata.lastUpdated = spec.data.lastUpdated;
+            await this.fileService.writeFeatureSpec(newPath, spec);
+
+            if (wasOpen) {
+                const document = await vscode.workspace.openTextDocument(newPath);
+                await vscode.window.showTextDocument(document);
+            }
+
+            vscode.window.showInformationMessage(`Renamed "${currentName}" to "${path.basename(newPath, '.md')}"`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to rename feature: ${error}`);
+        }
+    }
+
+    async duplicateSpec(target?: SpecCommandTarget): Promise<void> {
+        try {
+            const filePath = await this.resolveSpecPath(target);
+            if (!filePath) return;
+
+            const newName = await this.promptForSpecName(
+                'Enter name for the duplicated feature',
+                `${path.basename(filePath, '.md')}-copy`,
+                path.dirname(filePath)
+            );
+            if (!newName) return;
+
+            const spec = await this.readSpec(filePath);
+            const today = this.today();
+
+            // A duplicate starts its own lifecycle
+            spec.data.featureName = newName.trim();
+            spec.data.createdDate = today;
+            spec.data.lastUpdated = today;
+            spec.data.status = 'Draft';
+            spec.metadata.created = today;
+            spec.metadata.lastUpdated = today;
+            spec.metadata.statusChanged = '';
+            spec.metadata.questionsGenerated = '';
+            spec.metadata.planGenerated = '';
+
+            const content = this.fileService.serializeFeatureSpec(spec);
+            const newPath = await this.fileService.createFeatureFile(newName, content, path.dirname(filePath));
+
+            const document = await vscode.workspace.openTextDocument(newPath);
+            await vscode.window.showTextDocument(document);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to duplicate feature: ${error}`);
+        }
+    }
+
+    async archiveSpec(target?: SpecCommandTarget): Promise<void> {
+        try {
+            const filePath = await this.resolveSpecPath(target);
+            if (!filePath) return;
+
+            await this.closeEditors(filePath);
+            await this.fileService.archiveFeatureFile(filePath);
+
+            vscode.window.showInformationMessage(`Archived "${path.basename(filePath, '.md')}"`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to archive feature: ${error}`);
+        }
+    }
+
+    async deleteSpec(target?: SpecCommandTarget): Promise<void> {
+        try {
+            const filePath = await this.resolveSpecPath(target);
+            if (!filePath) return;
+
+            const name = path.basename(filePath, '.md');
+            const artifacts = await this.fileService.listGeneratedArtifacts(filePath);
+            const detail = artifacts.length > 0
+                ? `Its generated ${artifacts.map(artifact => artifact.type).join(' and ')} file(s) will be deleted too.`
+                : undefined;
+
+            const confirmation = await vscode.window.showWarningMessage(
+                `Delete feature "${name}"? This cannot be undone.`,
+                { modal: true, detail },
+                'Delete'
+            );
+
+            if (confirmation !== 'Delete') return;
+
+            await this.closeEditors(filePath);
+            await this.fileService.deleteFeatureWithArtifacts(filePath);
+
+            vscode.window.showInformationMessage(`Deleted "${name}"`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to delete feature: ${error}`);
+        }
+    }
+
+    /**
+     * Steps through a spec's clarifying questions one at a time and writes the
+     * answers back under each question. Answers given before cancelling are kept.
+     */
+    async answerQuestions(target?: SpecCommandTarget): Promise<void> {
+        try {
+            const selectedPath = await this.resolveSpecPath(target);
+            if (!selectedPath) return;
+
+            const filePath = await this.fileService.getArtifactOwnerPath(selectedPath) ?? selectedPath;
+            await this.saveOpenDocument(filePath);
+            await this.saveOpenDocument(this.fileService.getArtifactPath(filePath, 'questions'));
+
+            const questionnaire = await this.fileService.loadQuestionnaire(filePath);
+            if (!questionnaire) {
+                vscode.window.showInformationMessage('No clarifying questions found. Generate questions first.');
+                return;
+            }
+
+            const { questions } = questionnaire;
+            const answers = questions.map(question => question.answer);
+
+            const askQuestion = (index: number): InputStep => async input => {
+                const question = questions[index];
+                answers[index] = await input.showInputBox({
+                    title: `Answer Clarifying Questions: ${path.basename(filePath, '.md')}`,
+                    step: index + 1,
+                    totalSteps: questions.length,
+                    value: answers[index],
+                    prompt: `${question.number}. ${question.text}`,
+                    placeholder: 'Type an answer, or leave empty to skip'
+                });
+                return index + 1 < questions.length ? askQuestion(index + 1) : undefined;
+            };
+
+            await MultiStepInput.run(askQuestion(0));
+
+            const changed = answers.some((answer, index) => (answer?.trim() || undefined) !== questions[index].answer);
+            if (!changed) return;
+
+            await this.fileService.saveQuestionnaireAnswers(questionnaire, answers);
+
+            const answered = answers.filter(answer => answer?.trim()).length;
+            vscode.window.showInformationMessage(`Saved answers: ${answered} of ${questions.length} questions answered.`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to answer questions: ${error}`);
+        }
+    }
+
+    async togglePlanTask(item?: FeatureSpecItem): Promise<void> {
+        if (!item?.task || !item.specPath) return;
+
+        try {
+            await this.savePlanDocuments(item.specPath);
+            await this.fileService.setPlanTaskStates(item.specPath, { [item.task.id]: !item.task.done });
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to update task: ${error}`);
+        }
+    }
+
+    /**
+     * Shows every task of a spec's plan in one multi-select list so several
+     * boxes can be checked at once.
+     */
+    async updatePlanTasks(target?: SpecCommandTarget): Promise<void> {
+        try {
+            const selectedPath = await this.resolveSpecPath(target);
+            if (!selectedPath) return;
+
+            const filePath = await this.fileService.getArtifactOwnerPath(selectedPath) ?? selectedPath;
+            await this.savePlanDocuments(filePath);
+
+            const plan = await this.fileService.loadImplementationPlan(filePath);
+            if (!plan) {
+                vscode.window.showInformationMessage('No implementation plan tasks found. Generate a plan first.');
+                return;
+            }
+
+            type TaskPickItem = vscode.QuickPickItem & { kind?: vscode.QuickPickItemKind; task?: PlanTask };
+            const items: TaskPickItem[] = [];
+            const addTasks = (tasks: PlanTask[], parent?: PlanTask) => {
+                for (const task of tasks) {
+                    items.push({ label: task.text, description: parent?.text, picked: task.done, task });
+                    addTasks(task.children, task);
+                }
+            };
+            for (const group of plan.groups) {
+                if (group.heading) {
+                    items.push({ label: group.heading, kind: vscode.QuickPickItemKind.Separator });
+                }
+                addTasks(group.tasks);
+            }
+
+            const selected = await vscode.window.showQuickPick(items, {
+                title: `Plan Tasks: ${path.basename(filePath, '.md')}`,
+                placeHolder: `${plan.completed} of ${plan.total} done. Check the tasks that are complete.`,
+                canPickMany: true,
+                matchOnDescription: true
+            });
+            if (!selected) return;
+
+            const done = new Set(selected.map(item => item.task));
+            const states: Record<string, boolean> = {};
+            for (const { task } of items) {
+                if (task && task.done !== done.has(task)) {
+                    states[task.id] = done.has(task);
+                }
+            }
+            if (Object.keys(states).length === 0) return;
+
+            await this.fileService.setPlanTaskStates(filePath, states);
+            vscode.window.showInformationMessage(`Plan updated: ${done.size} of ${plan.total} tasks done`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to update plan tasks: ${error}`);
+        }
+    }
+
+    async revealPlanTask(item?: FeatureSpecItem): Promise<void> {
+        if (!item?.task || !item.specPath) return;
+
+        try {
+            const plan = await this.fileService.loadImplementationPlan(item.specPath);
+            if (!plan) return;
+
+            const position = new vscode.Position(item.task.line, 0);
+            const doc = await vscode.workspace.openTextDocument(plan.path);
+            await vscode.window.showTextDocument(doc, { selection: new vscode.Range(position, position) });
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to open task: ${error}`);
+        }
+    }
+
+    /**
+     * Lets the user choose an epic folder (or the top level) of a workspace
+     * folder. Returns undefined when cancelled; `exclude` hides the folder the
+     * spec already lives in.
+     */
+    async pickEpicDirectory(title: string, folder: vscode.WorkspaceFolder, exclude?: string): Promise<string | undefined> {
+        const featuresPath = this.fileService.getFeaturesPath(folder);
+        const epics = await this.fileService.listEpics(folder);
+
+        const options: Array<vscode.QuickPickItem & { directory: string }> = [
+            { label: '$(root-folder) No Epic', description: 'Top level of the features directory', directory: featuresPath },
+            ...epics.map(epic => ({
+                label: `$(folder-library) ${path.relative(featuresPath, epic.path)}`,
+                directory: epic.path
+            }))
+        ].filter(option => option.directory !== exclude);
+
+        const selected = await vscode.window.showQuickPick(options, {
+            title,
+            placeHolder: 'Select an epic'
+        });
+
+        return selected?.directory;
+    }
+
+    /**
+     * Resolves the workspace folder to work in: the folder a tree section was
+     * invoked on, the only folder, or the user's pick in multi-root workspaces.
+     */
+    async pickWorkspaceFolder(target?: SpecCommandTarget): Promise<vscode.WorkspaceFolder | undefined> {
+        if (target && !(target instanceof vscode.Uri) && target.contextValue === 'workspaceFolder' && target.resourceUri) {
+            return this.fileService.getWorkspaceFolder(target.resourceUri.fsPath);
+        }
+
+        const folders = this.fileService.getWorkspaceFolders();
+        if (folders.length <= 1) {
+            return this.fileService.getWorkspaceFolder();
+        }
+
+        return vscode.window.showWorkspaceFolderPick({ placeHolder: 'Select a workspace folder' });
+    }
+
+    getEpicDirectory(target?: SpecCommandTarget): string | undefined {
+        if (target && !(target instanceof vscode.Uri) && target.contextValue === 'specEpic') {
+            return target.resourceUri?.fsPath;
+        }
+        return undefined;
+    }
+
+    /**
+     * Asks for a spec name. With `directory`, names of specs already in it are
+     * rejected, so the file name and the spec's Feature header stay the same.
+     */
+    private async promptForSpecName(prompt: string, value: string, directory?: string): Promise<string | undefined> {
+        return vscode.window.showInputBox({
+            prompt,
+            value,
+            validateInput: async (input) => {
+                const validation = this.fileService.validateFileName(input);
+                if (!validation.valid) {
+                    return validation.error;
+                }
+                if (directory && await this.fileService.featureExists(input, directory)) {
+                    return `A feature named "${validation.sanitized}" already exists here`;
+                }
+                return undefined;
+            }
+        });
+    }
+
+    /**
+     * Closes any editor tabs showing the file. Returns true if one was open.
+     */
+    private async closeEditors(filePath: string): Promise<boolean> {
+        // Save first so closing never prompts about unsaved changes
+        const openDocument = vscode.workspace.textDocuments.find(doc => doc.uri.fsPath === filePath);
+        if (openDocument?.isDirty) {
+            await openDocument.save();
+        }
+
+        const tabs = vscode.window.tabGroups.all
+            .flatMap(group => group.tabs)
+            .filter(tab => tab.input instanceof vscode.TabInputText && tab.input.uri.fsPath === filePath);
+
+        if (tabs.length > 0) {
+            await vscode.window.tabGroups.close(tabs);
+        }
+
+        return tabs.length > 0;
+    }
+
+    private today(): string {
+        return new Date().toISOString().split('T')[0];
+    }
+
+    private describeDirectory(directory: string): string {
+        const folder = this.fileService.getWorkspaceFolder(directory);
+        const relative = path.relative(this.fileService.getFeaturesPath(folder), directory);
+        return relative.length > 0 ? `epic "${relative}"` : 'the top level';
+    }
+
+    private async applyStatus(filePath: string, spec: ParsedFeatureSpec, status: FeatureStatus): Promise<void> {
+        const now = new Date();
+        const previous = spec.data.status;
+        const today = this.today();
+
+        spec.data.status = status;
+        spec.data.lastUpdated = today;
+        spec.metadata.lastUpdated = today;
+        spec.metadata.statusChanged = `${previous} → ${status} (${now.toISOString()})`;
+
+        await this.fileService.writeFeatureSpec(filePath, spec);
+
+        vscode.window.showInformationMessage(
+            `"${spec.data.featureName || path.basename(filePath, '.md')}" moved to ${status}`
+        );
+    }
+
+    private async readSpec(filePath: string): Promise<ParsedFeatureSpec> {
+        await this.saveOpenDocument(filePath);
+        return this.fileService.readFeatureSpec(filePath);
+    }
+
+    private async savePlanDocuments(specPath: string): Promise<void> {
+        await this.saveOpenDocument(specPath);
+        await this.saveOpenDocument(this.fileService.getArtifactPath(specPath, 'plan'));
+    }
+
+    // Flush unsaved edits so the rewrite does not clobber them
+    private async saveOpenDocument(filePath: string): Promise<void> {
+        const openDocument = vscode.workspace.textDocuments.find(doc => doc.uri.fsPath === filePath);
+        if (openDocument?.isDirty) {
+            await openDocument.save();
+        }
+    }
+
+    private async resolveSpecPath(target?: SpecCommandTarget): Promise<string | undefined> {
+        if (target instanceof vscode.Uri) {
+            return target.fsPath;
+        }
+
+        if (target?.resourceUri) {
+            return target.resourceUri.fsPath;
+        }
+
+        if (target?.specPath) {
+            return target.specPath;
+        }
+
+        const activeEditor = vscode.window.activeTextEditor;
+        if (activeEditor && activeEditor.document.fileName.endsWith('.md')) {
+            return activeEditor.document.fileName;
+        }
+
+        const files = await this.fileService.listFeatureFiles();
+        if (files.length === 0) {
+            vscode.window.showInformationMessage('No feature specifications found.');
+            return undefined;
+        }
+
+        const selected = await vscode.window.showQuickPick(
+            files.map(file => ({
+                label: path.basename(file, '.md'),
+                description: vscode.workspace.asRelativePath(file, true),
+                filePath: file
+            })),
+            { title: 'Select Feature Spec', placeHolder: 'Choose a feature specification' }
+        );
+
+        return selected?.filePath;
+    }
+
+    dispose(): void {
+        // No cleanup needed
+    }
+}
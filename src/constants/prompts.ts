@@ -64,6 +64,8 @@ Feature Specification:
 Important Files Analysis:
 {importantFilesAnalysis}
 
+If the specification includes answered clarifying questions, treat the answers as decisions that the plan must follow.
+
 Create a detailed implementation plan that includes:
 
 ## 1. Technical Approach
@@ -105,6 +107,8 @@ Feature Requirements:
 Important Files Analysis:
 {importantFilesAnalysis}
 
+Answers to clarifying questions in the requirements are final decisions; build the plan around them.
+
 Develop a detailed plan covering:
 - Technical approach and architecture
 - Step-by-step implementation tasks
@@ -136,7 +140,12 @@ Generate code that:
 - Follows security best practices
 - Is well-documented with comments
 
-Provide the code for each file that needs to be created or modified, with clear file paths and explanations of the implementation choices.`,
+Provide the code for each file that needs to be created or modified, with clear file paths and explanations of the implementation choices.
+
+Output format (required, the response is parsed to apply the changes):
+- Start each file with a line "### File: <path relative to the project root>"
+- Follow it with one fenced code block holding the complete new content of that file, not a diff
+- Keep explanations outside the code blocks`,
 
         GEMINI_CLI: `Generate code implementation for the feature based on the project requirements and context.
 
@@ -149,7 +158,12 @@ Feature Details:
 Implementation Context:
 {implementationContext}
 
-Create production-quality code that integrates well with the existing project structure, follows best practices, and includes proper error handling and documentation.`
+Create production-quality code that integrates well with the existing project structure, follows best practices, and includes proper error handling and documentation.
+
+Output format (required, the response is parsed to apply the changes):
+- Start each file with a line "### File: <path relative to the project root>"
+- Follow it with one fenced code block holding the complete new content of that file, not a diff
+- Keep explanations outside the code blocks`
     },
 
     FILE_ANALYSIS: {
@@ -199,21 +213,27 @@ export interface PromptContext {
 
 export class PromptBuilder {
     static buildPrompt(template: string, context: PromptContext): string {
-        let prompt = template;
-        
-        // Replace placeholders with actual values
-        prompt = prompt.replace('{projectSummary}', context.projectSummary || 'No project context available');
-        prompt = prompt.replace('{featureContent}', context.featureContent || 'No feature content provided');
-        prompt = prompt.replace('{implementationContext}', context.implementationContext || 'No implementation context provided');
-        prompt = prompt.replace('{fileContent}', context.fileContent || 'No file content provided');
-        prompt = prompt.replace('{filePath}', context.filePath || 'No file path provided');
-        prompt = prompt.replace('{importantFilesAnalysis}', context.importantFilesAnalysis || 'No important files specified');
-        
+        const values: Record<keyof PromptContext, string> = {
+            projectSummary: context.projectSummary || 'No project context available',
+            featureContent: context.featureContent || 'No feature content provided',
+            implementationContext: context.implementationContext || 'No implementation context provided',
+            fileContent: context.fileContent || 'No file content provided',
+            filePath: context.filePath || 'No file path provided',
+            importantFilesAnalysis: context.importantFilesAnalysis || 'No important files specified'
+        };
+
+        // One pass with a replacer: inserted content is never scanned again,
+        // and `$&` or `$'` in specs and source files stay literal
+        const prompt = template.replace(/\{(\w+)\}/g, (placeholder, key: string) =>
+            Object.prototype.hasOwnProperty.call(values, key) ? values[key as keyof PromptContext] : placeholder
+        );
+
         return prompt.trim();
     }
 
-    static getTemplate(operation: 'questionnaire' | 'implementation' | 'codegen' | 'analysis', agent: 'claude-code' | 'gemini-cli'): string {
-        const agentKey = agent.toUpperCase().replace('-', '_') as 'CLAUDE_CODE' | 'GEMINI_CLI';
+    static getTemplate(operation: 'questionnaire' | 'implementation' | 'codegen' | 'analysis', agent: string): string {
+        // Agents declared in settings get the Claude Code prompts, which name no particular CLI
+        const agentKey = agent === 'gemini-cli' || agent === 'gemini-vertex' ? 'GEMINI_CLI' : 'CLAUDE_CODE';
         
         switch (operation) {
             case 'questionnaire':
@@ -228,41 +248,4 @@ export class PromptBuilder {
                 throw new Error(`Unknown operation: ${operation}`);
         }
     }
-
-    static validatePromptLength(prompt: string, maxLength: number = 8000): { isValid: boolean; length: number; message?: string } {
-        const length = prompt.length;
-        
-        if (length <= maxLength) {
-            return { isValid: true, length };
-        }
-        
-        return {
-            isValid: false,
-            length,
-            message: `Prompt exceeds maximum length of ${maxLength} characters (current: ${length})`
-        };
-    }
-
-    static truncateContext(context: PromptContext, maxLength: number = 6000): PromptContext {
-        const truncated = { ...context };
-        
-        // Truncate long content to fit within limits
-        if (truncated.featureContent && truncated.featureContent.length > maxLength / 3) {
-            truncated.featureContent = truncated.featureContent.substring(0, maxLength / 3) + '\n\n[Content truncated for length...]';
-        }
-        
-        if (truncated.projectSummary && truncated.projectSummary.length > maxLength / 6) {
-            truncated.projectSummary = truncated.projectSummary.substring(0, maxLength / 6) + '\n\n[Summary truncated for length...]';
-        }
-        
-        if (truncated.fileContent && truncated.fileContent.length > maxLength / 3) {
-            truncated.fileContent = truncated.fileContent.substring(0, maxLength / 3) + '\n\n[File content truncated for length...]';
-        }
-        
-        if (truncated.importantFilesAnalysis && truncated.importantFilesAnalysis.length > maxLength / 3) {
-            truncated.importantFilesAnalysis = truncated.importantFilesAnalysis.substring(0, maxLength / 3) + '\n\n[Files analysis truncated for length...]';
-        }
-        
-        return truncated;
-    }
 }
\ No newline at end of file
@@ -1,26 +1,38 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { FeatureTreeProvider } from './providers/featureTreeProvider';
+import { SpecDiagnosticsProvider } from './providers/specDiagnosticsProvider';
+import { ProposedChangeProvider } from './providers/proposedChangeProvider';
 import { TemplateService } from './services/templateService';
 import { FileService } from './services/fileService';
-import { FeatureSpecData } from './models/featureSpec';
+import { FeatureSpecData, FeatureSpecItem } from './models/featureSpec';
 import { AgentManager } from './services/agentManager';
 import { CLICommands } from './commands/cliCommands';
+import { SpecCommands, SpecCommandTarget } from './commands/specCommands';
+import { FeatureWizard } from './commands/featureWizard';
 
 let treeProvider: FeatureTreeProvider;
+let diagnosticsProvider: SpecDiagnosticsProvider;
+let proposedChangeProvider: ProposedChangeProvider;
 let templateService: TemplateService;
 let fileService: FileService;
 let agentManager: AgentManager;
 let cliCommands: CLICommands;
+let specCommands: SpecCommands;
+let featureWizard: FeatureWizard;
 
 export function activate(context: vscode.ExtensionContext) {
     console.log('🚀 Feature Spec Extension is now active!');
 
     // Initialize services
     console.log('🔧 Initializing services...');
-    templateService = new TemplateService(context);
     fileService = new FileService();
+    templateService = new TemplateService(context, fileService);
     agentManager = AgentManager.getInstance();
-    cliCommands = new CLICommands();
+    proposedChangeProvider = new ProposedChangeProvider();
+    cliCommands = new CLICommands(fileService, proposedChangeProvider);
+    specCommands = new SpecCommands(fileService);
+    featureWizard = new FeatureWizard(fileService, templateService, agentManager);
     treeProvider = new FeatureTreeProvider(fileService);
     
     // Register tree view
@@ -30,8 +42,25 @@ export function activate(context: vscode.ExtensionContext) {
         canSelectMany: false,
     });
 
+    // Lint feature specs and offer quick fixes
+    console.log('🩺 Registering spec diagnostics...');
+    diagnosticsProvider = new SpecDiagnosticsProvider(fileService);
+    context.subscriptions.push(
+        vscode.languages.registerCodeActionsProvider(
+            { language: 'markdown', scheme: 'file' },
+            diagnosticsProvider,
+            { providedCodeActionKinds: SpecDiagnosticsProvider.providedCodeActionKinds }
+        )
+    );
+
+    // Serve generated file contents to the diff editor
+    context.subscriptions.push(
+        vscode.workspace.registerTextDocumentContentProvider(ProposedChangeProvider.scheme, proposedChangeProvider)
+    );
+
     // Initialize CLI agents
     console.log('🤖 Initializing CLI agents...');
+    agentManager.useWorkspaceState(context.workspaceState);
     agentManager.initializeAgents().catch(error => {
         console.error('Failed to initialize CLI agents:', error);
     });
@@ -45,7 +74,11 @@ export function activate(context: vscode.ExtensionContext) {
         templateService,
         fileService,
         treeProvider,
-        cliCommands
+        diagnosticsProvider,
+        proposedChangeProvider,
+        agentManager,
+        cliCommands,
+        specCommands
     );
     
     console.log('✅ Extension activation complete!');
@@ -56,26 +89,94 @@ function registerCommands(context: vscode.ExtensionContext) {
         // Existing commands
         vscode.commands.registerCommand(
             'featureSpecs.createNew',
-            createNewFeature
+            (target?: SpecCommandTarget) => createNewFeature(target)
+        ),
+        vscode.commands.registerCommand(
+            'codespec.createTemplate',
+            () => createTemplate()
+        ),
+        vscode.commands.registerCommand(
+            'featureSpecs.createEpic',
+            (target?: SpecCommandTarget) => specCommands.createEpic(target)
+        ),
+        vscode.commands.registerCommand(
+            'codespec.renameSpec',
+            (target?: SpecCommandTarget) => specCommands.renameSpec(target)
+        ),
+        vscode.commands.registerCommand(
+            'codespec.duplicateSpec',
+            (target?: SpecCommandTarget) => specCommands.duplicateSpec(target)
+        ),
+        vscode.commands.registerCommand(
+            'codespec.archiveSpec',
+            (target?: SpecCommandTarget) => specCommands.archiveSpec(target)
+        ),
+        vscode.commands.registerCommand(
+            'codespec.deleteSpec',
+            (target?: SpecCommandTarget) => specCommands.deleteSpec(target)
+        ),
+        vscode.commands.registerCommand(
+            'codespec.moveToEpic',
+            (target?: SpecCommandTarget) => specCommands.moveToEpic(target)
+        ),
+        vscode.commands.registerCommand(
+            'codespec.answerQuestions',
+            (target?: SpecCommandTarget) => specCommands.answerQuestions(target)
+        ),
+        vscode.commands.registerCommand(
+            'codespec.updatePlanTasks',
+            (target?: SpecCommandTarget) => specCommands.updatePlanTasks(target)
+        ),
+        vscode.commands.registerCommand(
+            'codespec.togglePlanTask',
+            (item?: FeatureSpecItem) => specCommands.togglePlanTask(item)
+        ),
+        vscode.commands.registerCommand(
+            'codespec.revealPlanTask',
+            (item?: FeatureSpecItem) => specCommands.revealPlanTask(item)
         ),
         vscode.commands.registerCommand(
             'featureSpecs.refreshTree',
             () => treeProvider.refresh()
         ),
+        vscode.commands.registerCommand(
+            'featureSpecs.groupBy',
+            () => treeProvider.showGroupByQuickPick()
+        ),
+        vscode.commands.registerCommand(
+            'featureSpecs.filter',
+            () => treeProvider.showFilterQuickPick()
+        ),
+        vscode.commands.registerCommand(
+            'featureSpecs.clearFilter',
+            () => treeProvider.clearFilter()
+        ),
         
         // CLI Agent commands
         vscode.commands.registerCommand(
             'codespec.generateQuestions',
-            (featureUri?: vscode.Uri) => cliCommands.generateQuestions(featureUri)
+            (target?: SpecCommandTarget) => cliCommands.generateQuestions(target)
         ),
         vscode.commands.registerCommand(
             'codespec.generatePlan',
-            (featureUri?: vscode.Uri) => cliCommands.generatePlan(featureUri)
+            (target?: SpecCommandTarget) => cliCommands.generatePlan(target)
+        ),
+        vscode.commands.registerCommand(
+            'codespec.generateCode',
+            (target?: SpecCommandTarget) => cliCommands.generateCode(target)
+        ),
+        vscode.commands.registerCommand(
+            'codespec.analyzeFile',
+            (fileUri?: vscode.Uri) => cliCommands.analyzeFile(fileUri)
         ),
         vscode.commands.registerCommand(
             'codespec.switchAgent',
             () => cliCommands.switchAgent()
         ),
+        vscode.commands.registerCommand(
+            'codespec.setSpecAgent',
+            (target?: SpecCommandTarget) => cliCommands.setSpecAgent(target)
+        ),
         vscode.commands.registerCommand(
             'codespec.refreshAgents',
             () => cliCommands.refreshAgents()
@@ -86,13 +187,31 @@ function registerCommands(context: vscode.ExtensionContext) {
         ),
         vscode.commands.registerCommand(
             'codespec.runInTerminal',
-            (featureUri?: vscode.Uri) => cliCommands.runInTerminal(featureUri)
+            (target?: SpecCommandTarget) => cliCommands.runInTerminal(target)
         ),
         vscode.commands.registerCommand(
             'codespec.analyzeProjectContext',
             () => cliCommands.analyzeProjectContext()
         ),
         
+        // Spec lifecycle commands
+        vscode.commands.registerCommand(
+            'codespec.changeStatus',
+            (target?: SpecCommandTarget) => specCommands.changeStatus(target)
+        ),
+        vscode.commands.registerCommand(
+            'codespec.markInProgress',
+            (target?: SpecCommandTarget) => specCommands.transitionTo(target, 'In Progress')
+        ),
+        vscode.commands.registerCommand(
+            'codespec.markReadyForReview',
+            (target?: SpecCommandTarget) => specCommands.transitionTo(target, 'Ready for Review')
+        ),
+        vscode.commands.registerCommand(
+            'codespec.markCompleted',
+            (target?: SpecCommandTarget) => specCommands.transitionTo(target, 'Completed')
+        ),
+        
         // Agent status context menu commands
         vscode.commands.registerCommand(
             'codespec.selectAgent',
@@ -111,19 +230,27 @@ function registerCommands(context: vscode.ExtensionContext) {
     context.subscriptions.push(...commands);
 }
 
-async function createNewFeature() {
+async function createNewFeature(target?: SpecCommandTarget) {
     console.log('🎯 Create New Feature command triggered');
     
     try {
-        // Step 1: Get and validate feature name
-        const featureName = await getValidFeatureName();
-        if (!featureName) {
+        // Step 1: Pick the epic to create the feature in
+        const directory = await resolveFeatureDirectory(target);
+        if (!directory) {
+            console.log('❌ User cancelled epic selection');
+            return;
+        }
+
+        // Step 2: Collect name, template and spec content
+        const answers = await featureWizard.run(directory);
+        if (!answers) {
             console.log('❌ User cancelled feature creation');
             return;
         }
+        const { featureName, template, variables } = answers;
 
-        // Step 2: Check for duplicates
-        const exists = await fileService.featureExists(featureName);
+        // Step 3: Check for duplicates
+        const exists = await fileService.featureExists(featureName, directory);
         if (exists) {
             const action = await handleDuplicateName(featureName);
             if (!action) {
@@ -132,7 +259,7 @@ async function createNewFeature() {
             }
         }
 
-        // Step 3: Create feature with progress indicator
+        // Step 4: Create feature with progress indicator
         await vscode.window.withProgress({
             location: vscode.ProgressLocation.Notification,
             title: "Creating feature specification...",
@@ -140,7 +267,7 @@ async function createNewFeature() {
         }, async (progress) => {
             // Create .features directory
             progress.report({ increment: 25, message: "Creating directory..." });
-            await fileService.ensureFeaturesDirectory();
+            await fileService.ensureFeaturesDirectory(fileService.getWorkspaceFolder(directory));
             
             // Generate content from template
             progress.report({ increment: 25, message: "Generating content..." });
@@ -149,13 +276,17 @@ async function createNewFeature() {
                 createdDate: new Date().toISOString().split('T')[0],
                 lastUpdated: new Date().toISOString().split('T')[0],
                 status: 'Draft',
-                cliAgent: 'Not Set'
+                cliAgent: answers.cliAgent,
+                description: answers.description,
+                acceptanceCriteria: answers.acceptanceCriteria,
+                importantFiles: answers.importantFiles,
+                technicalConsiderations: answers.technicalConsiderations
             };
-            const content = await templateService.populateTemplate(templateData);
+            const content = await templateService.populateTemplate(templateData, template, variables);
             
             // Create file
             progress.report({ increment: 25, message: "Creating file..." });
-            const filePath = await fileService.createFeatureFile(featureName, content);
+            const filePath = await fileService.createFeatureFile(featureName, content, directory);
             
             // Open in editor
             progress.report({ increment: 25, message: "Opening editor..." });
@@ -175,19 +306,76 @@ async function createNewFeature() {
     }
 }
 
-async function getValidFeatureName(): Promise<string | undefined> {
-    return await vscode.window.showInputBox({
-        prompt: 'Enter feature name',
-        placeHolder: 'my-awesome-feature',
-        validateInput: (value) => {
-            if (!value || value.trim().length === 0) {
-                return 'Feature name cannot be empty';
+async function resolveFeatureDirectory(target?: SpecCommandTarget): Promise<string | undefined> {
+    const epicDirectory = specCommands.getEpicDirectory(target);
+    if (epicDirectory) {
+        return epicDirectory;
+    }
+
+    const folder = await specCommands.pickWorkspaceFolder(target);
+    if (!folder) {
+        return undefined;
+    }
+
+    // Only ask when there are epics to choose from
+    const epics = await fileService.listEpics(folder);
+    if (epics.length === 0) {
+        return fileService.getFeaturesPath(folder);
+    }
+
+    return specCommands.pickEpicDirectory('Create Feature In', folder);
+}
+
+async function createTemplate(): Promise<void> {
+    try {
+        const name = await vscode.window.showInputBox({
+            prompt: 'Enter template name',
+            placeHolder: 'security-review',
+            validateInput: (value) => {
+                const validation = fileService.validateFileName(value);
+                return validation.valid ? undefined : validation.error;
             }
-            
-            const validation = fileService.validateFileName(value);
-            return validation.valid ? undefined : validation.error;
+        });
+        if (!name) return;
+
+        const locations: Array<vscode.QuickPickItem & { directory: string }> = [];
+        for (const folder of fileService.getWorkspaceFolders()) {
+            const directory = fileService.getTemplatesPath(folder);
+            locations.push({
+                label: 'Workspace',
+                description: vscode.workspace.asRelativePath(directory, true),
+                detail: 'Shared with everyone working in this repository',
+                directory
+            });
         }
-    });
+        const userDirectory = templateService.getUserTemplatesPath();
+        if (userDirectory) {
+            locations.push({
+                label: 'User',
+                description: userDirectory,
+                detail: 'Available in every workspace on this machine',
+                directory: userDirectory
+            });
+        }
+        if (locations.length === 0) {
+            vscode.window.showErrorMessage('No template location available. Open a workspace or set codespec.templates.userDirectory.');
+            return;
+        }
+
+        const location = locations.length === 1
+            ? locations[0]
+            : await vscode.window.showQuickPick(locations, { title: 'Save Template In' });
+        if (!location) return;
+
+        const templatePath = path.join(location.directory, `${fileService.validateFileName(name).sanitized}.md`);
+        await templateService.createCustomTemplate(templatePath);
+
+        const document = await vscode.workspace.openTextDocument(templatePath);
+        await vscode.window.showTextDocument(document);
+        vscode.window.showInformationMessage(`Template "${path.basename(templatePath, '.md')}" created`);
+    } catch (error) {
+        vscode.window.showErrorMessage(`Failed to create template: ${error}`);
+    }
 }
 
 async function handleDuplicateName(featureName: string): Promise<boolean> {
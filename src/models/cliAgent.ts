@@ -1,14 +1,68 @@
 export interface CLIAgentInfo {
     name: string;                    // 'claude-code' | 'gemini-cli'
     displayName: string;             // 'Claude Code' | 'Gemini CLI'
-    command: string;                 // Base command ('claude', 'gcloud')
+    command: string;                 // Base command ('claude', 'gemini')
+    versionFlag?: string;            // Arguments that print the version
     version: string;                 // Detected version
     isAvailable: boolean;            // Installation status
     isAuthenticated: boolean;        // Authentication status
     supportedFeatures: CLIFeature[]; // Supported capabilities
+    promptDelivery: PromptDelivery;  // How prompts are passed to the CLI
+    outputFormat: OutputFormat;      // What the CLI prints on stdout
+    args?: string[];                 // Argument template of agents declared in settings
+    model?: string;                  // Model passed to CLIs that take one
+    permissionMode?: string;         // Claude Code --permission-mode
+    allowedTools?: string[];         // Claude Code --allowedTools
+    env?: Record<string, string>;    // Added to the environment of every run
+    endpoint?: HttpAgentEndpoint;    // Set for agents served over HTTP instead of a CLI
     executablePath?: string;         // Optional path to executable
 }
 
+// 'openai' is any OpenAI-compatible server (llama.cpp, LM Studio, vLLM, ...);
+// 'ollama' is Ollama's native API
+export type HttpAgentApi = 'openai' | 'ollama';
+
+export interface HttpAgentEndpoint {
+    api: HttpAgentApi;
+    baseUrl: string;                 // e.g. http://localhost:1234/v1 or http://localhost:11434
+    model: string;                   // Model sent with each request
+    models: string[];                // Models the endpoint reported during detection
+    apiKeyEnv?: string;              // Environment variable holding a bearer token
+}
+
+// Prompts are too long for the command line, so they are piped to stdin or
+// written to a temp file that the command references. 'argument' exists only
+// for agents declared in settings whose argument template has a {prompt} slot.
+export type PromptDelivery = 'stdin' | 'file' | 'argument';
+
+// 'json' is a single result object and 'stream-json' one event per line, as
+// printed by Claude Code's --output-format; agents without them use 'text'
+export type OutputFormat = 'text' | 'json' | 'stream-json';
+
+// A process to spawn directly, without a shell, so arguments never need quoting
+export interface CLIInvocation {
+    executable: string;
+    args: string[];
+    stdin?: string;                                     // Piped to the process, usually the prompt
+    env?: Record<string, string>;                       // Added to the inherited environment
+    promptFile?: { path: string; content: string };    // Written before the run, removed after
+    outputFormat?: OutputFormat;                        // How to read stdout, 'text' when unset
+}
+
+// A chat request to an HTTP agent; the reply is streamed back
+export interface HttpInvocation {
+    api: HttpAgentApi;
+    url: string;
+    headers: Record<string, string>;
+    body: Record<string, unknown>;
+}
+
+export type AgentInvocation = CLIInvocation | HttpInvocation;
+
+export function isHttpInvocation(invocation: AgentInvocation): invocation is HttpInvocation {
+    return 'url' in invocation;
+}
+
 export enum CLIFeature {
     QUESTIONNAIRE_GENERATION = 'questionnaire',
     IMPLEMENTATION_PLANNING = 'planning',
@@ -21,6 +75,41 @@ export interface CLIExecutionResult {
     output: string;
     error?: string;
     exitCode: number;
+    /** Set when the user cancelled; `output` then holds what arrived before that */
+    cancelled?: boolean;
+    /** stdout as printed, when `output` was extracted from structured output */
+    rawOutput?: string;
+    sessionId?: string;
+    usage?: AgentUsage;
+    toolEvents?: AgentToolEvent[];
+}
+
+export interface AgentUsage {
+    inputTokens: number;
+    outputTokens: number;
+    cacheReadTokens?: number;
+    cacheCreationTokens?: number;
+    costUsd?: number;
+    durationMs?: number;
+    turns?: number;
+}
+
+// A tool call made by the agent during the run, with its result once known
+export interface AgentToolEvent {
+    id?: string;
+    name: string;
+    input?: unknown;
+    result?: string;
+    isError?: boolean;
+}
+
+export interface ParsedAgentOutput {
+    text: string;               // The final answer, without CLI chatter
+    structured: boolean;        // False when the output was used as plain text
+    isError?: boolean;
+    sessionId?: string;
+    usage?: AgentUsage;
+    toolEvents: AgentToolEvent[];
 }
 
 export interface CLIAgentConfig {
@@ -30,32 +119,96 @@ export interface CLIAgentConfig {
     versionFlag: string;
     authCheckCommand?: string;
     supportedFeatures: CLIFeature[];
+    promptDelivery: PromptDelivery;
+    outputFormat: OutputFormat;
+    args?: string[];
+    model?: string;
+    permissionMode?: string;
+    allowedTools?: string[];
+    env?: Record<string, string>;
+    endpoint?: HttpAgentEndpoint;
+}
+
+/**
+ * An agent declared in the `codespec.agents.custom` setting. `args` is an
+ * argument template with {prompt}, {file} and {promptFile} slots; without
+ * {prompt} or {promptFile} the prompt is piped to stdin.
+ */
+export interface CustomAgentSetting {
+    name: string;
+    displayName?: string;
+    command: string;
+    versionFlag?: string;
+    authCheckCommand?: string;
+    supportedFeatures?: string[];
+    args?: string[];
+    outputFormat?: OutputFormat;
+}
+
+/**
+ * An agent declared in the `codespec.agents.http` setting, served by a local
+ * model server. Without `model` the first model the server lists is used.
+ */
+export interface HttpAgentSetting {
+    name: string;
+    displayName?: string;
+    api?: HttpAgentApi;
+    baseUrl?: string;
+    model?: string;
+    apiKeyEnv?: string;
+    supportedFeatures?: string[];
 }
 
 export const SUPPORTED_AGENTS: CLIAgentConfig[] = [
     {
+        // Claude Code in print mode (claude -p); it has no auth status
+        // command, so the detector looks for its credentials instead
         name: 'claude-code',
         displayName: 'Claude Code',
         command: 'claude',
         versionFlag: '--version',
-        authCheckCommand: 'auth status',
         supportedFeatures: [
             CLIFeature.QUESTIONNAIRE_GENERATION,
             CLIFeature.IMPLEMENTATION_PLANNING,
             CLIFeature.CODE_GENERATION,
             CLIFeature.FILE_ANALYSIS
-        ]
+        ],
+        promptDelivery: 'stdin',
+        outputFormat: 'stream-json'
     },
     {
+        // The standalone gemini CLI; it has no auth status command, so the
+        // detector looks for its credentials instead
         name: 'gemini-cli',
         displayName: 'Gemini CLI',
-        command: 'gcloud',
+        command: 'gemini',
         versionFlag: '--version',
-        authCheckCommand: 'auth list',
         supportedFeatures: [
             CLIFeature.QUESTIONNAIRE_GENERATION,
             CLIFeature.IMPLEMENTATION_PLANNING,
-            CLIFeature.CODE_GENERATION
-        ]
+            CLIFeature.CODE_GENERATION,
+            CLIFeature.FILE_ANALYSIS
+        ],
+        promptDelivery: 'stdin',
+        outputFormat: 'text'
     }
-];
\ No newline at end of file
+];
+
+/**
+ * The gemini CLI running against Vertex AI with gcloud application default
+ * credentials. Only offered when `codespec.gemini.vertexAI.project` is set.
+ */
+export const GEMINI_VERTEX_AGENT: CLIAgentConfig = {
+    name: 'gemini-vertex',
+    displayName: 'Gemini CLI (Vertex AI)',
+    command: 'gemini',
+    versionFlag: '--version',
+    supportedFeatures: [
+        CLIFeature.QUESTIONNAIRE_GENERATION,
+        CLIFeature.IMPLEMENTATION_PLANNING,
+        CLIFeature.CODE_GENERATION,
+        CLIFeature.FILE_ANALYSIS
+    ],
+    promptDelivery: 'stdin',
+    outputFormat: 'text'
+};
\ No newline at end of file
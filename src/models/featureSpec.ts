@@ -3,6 +3,9 @@ import * as vscode from 'vscode';
 export class FeatureSpecItem extends vscode.TreeItem {
     public children?: FeatureSpecItem[];
     public parent?: FeatureSpecItem;
+    public data?: FeatureSpecData;
+    public specPath?: string;
+    public task?: PlanTask;
 
     constructor(
         public readonly id: string,
@@ -18,12 +21,28 @@ export class FeatureSpecItem extends vscode.TreeItem {
     }
 }
 
+export type FeatureStatus = 'Draft' | 'In Progress' | 'Ready for Review' | 'Completed';
+
+export const FEATURE_STATUSES: FeatureStatus[] = ['Draft', 'In Progress', 'Ready for Review', 'Completed'];
+
+// Allowed lifecycle moves from each status
+export const STATUS_TRANSITIONS: Record<FeatureStatus, FeatureStatus[]> = {
+    'Draft': ['In Progress'],
+    'In Progress': ['Ready for Review', 'Draft'],
+    'Ready for Review': ['Completed', 'In Progress'],
+    'Completed': ['In Progress']
+};
+
+// 'claude-code', 'gemini-cli', the name of an agent declared in settings, or 'Not Set'
+export type FeatureCLIAgent = string;
+
 export interface FeatureSpecData {
     featureName: string;
     createdDate: string;
     lastUpdated: string;
-    status: 'Draft' | 'In Progress' | 'Ready for Review' | 'Completed';
-    cliAgent: 'claude-code' | 'gemini-cli' | 'Not Set';
+    status: FeatureStatus;
+    cliAgent: FeatureCLIAgent;
+    tags?: string[];
     description?: string;
     acceptanceCriteria?: string[];
     importantFiles?: string[];
@@ -31,6 +50,98 @@ export interface FeatureSpecData {
     technicalConsiderations?: string;
 }
 
+// Files written next to a spec as `<name>-<type>.md` by the CLI commands
+export type GeneratedArtifactType = 'questions' | 'plan';
+
+export const GENERATED_ARTIFACT_TYPES: GeneratedArtifactType[] = ['questions', 'plan'];
+
+export interface GeneratedArtifact {
+    type: GeneratedArtifactType;
+    path: string;
+}
+
+// A file the agent proposed to create or replace during code generation
+export interface ProposedFileChange {
+    path: string;       // Relative to the workspace folder, as written by the agent
+    content: string;    // Complete new content of the file
+}
+
+// Where a spec template was discovered; workspace templates shadow user ones,
+// which shadow the built-in set shipped with the extension
+export type TemplateSource = 'workspace' | 'user' | 'builtin';
+
+export interface FeatureTemplate {
+    id: string;
+    name: string;
+    description?: string;
+    path: string;
+    source: TemplateSource;
+}
+
+// A custom variable declared in a template's front matter and prompted for
+// when a spec is created from it
+export interface TemplateVariable {
+    name: string;
+    prompt?: string;
+    placeholder?: string;
+    default?: string;
+    required?: boolean;
+    options?: string[];
+}
+
+export interface TemplateFrontMatter {
+    name?: string;
+    description?: string;
+    variables: TemplateVariable[];
+}
+
+// A numbered question from generated clarifying questions, with the answer
+// recorded in the "> **Answer:**" block underneath it
+export interface ClarifyingQuestion {
+    number: number;
+    text: string;
+    answer?: string;
+    line: number;       // Index of the question's first line
+    endLine: number;    // Index after the question text and its answer block
+}
+
+export interface Questionnaire {
+    source: 'section' | 'artifact';
+    path: string;
+    content: string;
+    questions: ClarifyingQuestion[];
+}
+
+// A list item from an implementation plan, tracked as a checkbox in the plan file
+export interface PlanTask {
+    id: string;         // Derived from the heading and text, so it survives reordering
+    text: string;
+    done: boolean;
+    line: number;       // Index of the list item line in the plan file
+    children: PlanTask[];
+}
+
+export interface PlanTaskGroup {
+    heading?: string;   // Undefined for tasks above the first heading
+    tasks: PlanTask[];
+}
+
+export interface ImplementationPlan {
+    source: 'section' | 'artifact';
+    path: string;
+    groups: PlanTaskGroup[];
+    total: number;
+    completed: number;
+}
+
+export type TreeGroupBy = 'none' | 'status' | 'agent' | 'tag';
+
+export interface TreeFilter {
+    statuses: FeatureStatus[];
+    agents: string[];
+    tags: string[];
+}
+
 export interface FeatureSpecFile {
     name: string;
     path: string;
@@ -44,6 +155,21 @@ export interface FeatureSpecMetadata {
     cliAgentUsed: string;
     questionsGenerated?: string;
     planGenerated?: string;
+    statusChanged?: string;
+}
+
+export interface SpecSection {
+    heading: string;        // Heading text without the leading '## '
+    headingLine: string;    // Heading line exactly as written in the file
+    lines: string[];        // Body lines up to the next level-2 heading
+}
+
+export interface ParsedFeatureSpec {
+    data: FeatureSpecData;
+    metadata: FeatureSpecMetadata;
+    preamble: string[];     // Title and header lines before the first section
+    sections: SpecSection[];
+    eol: string;
 }
 
 export interface ProjectContext {
@@ -1,30 +1,167 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { FeatureSpecItem, FeatureSpecFile } from '../models/featureSpec';
+import {
+    FeatureSpecItem,
+    FeatureSpecData,
+    FeatureSpecFile,
+    FeatureStatus,
+    GeneratedArtifact,
+    GeneratedArtifactType,
+    ImplementationPlan,
+    PlanTask,
+    PlanTaskGroup,
+    TreeGroupBy,
+    TreeFilter,
+    FEATURE_STATUSES
+} from '../models/featureSpec';
 import { FileService } from '../services/fileService';
 import { AgentManager } from '../services/agentManager';
-import { CLIAgentInfo } from '../models/cliAgent';
+import { PlanParser } from '../utils/planParser';
+
+interface LoadedRoot {
+    folder: vscode.WorkspaceFolder;
+    tree: FeatureSpecFile[];
+}
+
+interface LoadedSpec {
+    filePath: string;
+    data?: FeatureSpecData;
+    artifacts: GeneratedArtifact[];
+    plan?: ImplementationPlan;
+}
+
+const ARTIFACT_LABELS: Record<GeneratedArtifactType, { label: string; icon: string }> = {
+    questions: { label: 'Clarifying Questions', icon: 'question' },
+    plan: { label: 'Implementation Plan', icon: 'checklist' }
+};
+
+const STATUS_ICONS: Record<FeatureStatus, string> = {
+    'Draft': 'edit',
+    'In Progress': 'sync',
+    'Ready for Review': 'eye',
+    'Completed': 'pass'
+};
 
 export class FeatureTreeProvider implements vscode.TreeDataProvider<FeatureSpecItem> {
     private _onDidChangeTreeData: vscode.EventEmitter<FeatureSpecItem | undefined | null | void> = new vscode.EventEmitter<FeatureSpecItem | undefined | null | void>();
     readonly onDidChangeTreeData: vscode.Event<FeatureSpecItem | undefined | null | void> = this._onDidChangeTreeData.event;
 
     private data: FeatureSpecItem[] = [];
-    private fileWatcher: vscode.FileSystemWatcher | undefined;
+    private roots: LoadedRoot[] = [];
+    private specs: LoadedSpec[] = [];
+    private filter: TreeFilter = { statuses: [], agents: [], tags: [] };
+    private fileWatchers: vscode.FileSystemWatcher[] = [];
+    private configListener: vscode.Disposable | undefined;
+    private workspaceListener: vscode.Disposable | undefined;
     private agentManager: AgentManager;
+    private planParser = new PlanParser();
 
     constructor(private fileService: FileService) {
         console.log('🌳 FeatureTreeProvider constructor called');
         this.agentManager = AgentManager.getInstance();
-        this.loadFeatureFiles();
+        this.refresh();
         this.watchFiles();
         this.setupAgentEvents();
+        this.setupConfigurationEvents();
+        this.updateFilterContext();
     }
 
     refresh(): void {
         console.log('🔄 Refreshing tree view...');
-        this.loadFeatureFiles();
-        this._onDidChangeTreeData.fire();
+        this.loadFeatureFiles().then(() => this._onDidChangeTreeData.fire());
+    }
+
+    getGroupBy(): TreeGroupBy {
+        return vscode.workspace.getConfiguration('codespec').get<TreeGroupBy>('tree.groupBy', 'none');
+    }
+
+    async setGroupBy(groupBy: TreeGroupBy): Promise<void> {
+        await vscode.workspace.getConfiguration('codespec').update(
+            'tree.groupBy',
+            groupBy,
+            vscode.ConfigurationTarget.Workspace
+        );
+    }
+
+    getFilter(): TreeFilter {
+        return {
+            statuses: [...this.filter.statuses],
+            agents: [...this.filter.agents],
+            tags: [...this.filter.tags]
+        };
+    }
+
+    setFilter(filter: TreeFilter): void {
+        this.filter = filter;
+        this.updateFilterContext();
+        this.rebuild();
+    }
+
+    clearFilter(): void {
+        this.setFilter({ statuses: [], agents: [], tags: [] });
+    }
+
+    isFiltered(): boolean {
+        return this.filter.statuses.length > 0 || this.filter.agents.length > 0 || this.filter.tags.length > 0;
+    }
+
+    async showGroupByQuickPick(): Promise<void> {
+        const current = this.getGroupBy();
+        const options: Array<{ label: string; value: TreeGroupBy }> = [
+            { label: 'No Grouping', value: 'none' },
+            { label: 'Group by Status', value: 'status' },
+            { label: 'Group by CLI Agent', value: 'agent' },
+            { label: 'Group by Tag', value: 'tag' }
+        ];
+
+        const selected = await vscode.window.showQuickPick(
+            options.map(option => ({
+                ...option,
+                description: option.value === current ? 'Current' : undefined
+            })),
+            { title: 'Group Feature Specs', placeHolder: 'Choose how to group the feature tree' }
+        );
+
+        if (selected) {
+            await this.setGroupBy(selected.value);
+        }
+    }
+
+    async showFilterQuickPick(): Promise<void> {
+        type FilterPickItem = vscode.QuickPickItem & { kind?: vscode.QuickPickItemKind; dimension?: keyof TreeFilter; value?: string };
+
+        const agents = this.collectValues(spec => [spec.cliAgent]);
+        const tags = this.collectValues(spec => spec.tags || []);
+
+        const section = (label: string): FilterPickItem => ({ label, kind: vscode.QuickPickItemKind.Separator });
+        const option = (dimension: keyof TreeFilter, value: string): FilterPickItem => ({
+            label: value,
+            dimension,
+            value,
+            picked: (this.filter[dimension] as string[]).includes(value)
+        });
+
+        const items: FilterPickItem[] = [
+            section('Status'),
+            ...FEATURE_STATUSES.map(status => option('statuses', status)),
+            section('CLI Agent'),
+            ...agents.map(agent => option('agents', agent)),
+            ...(tags.length > 0 ? [section('Tags'), ...tags.map(tag => option('tags', tag))] : [])
+        ];
+
+        const selected = await vscode.window.showQuickPick(items, {
+            title: 'Filter Feature Specs',
+            placeHolder: 'Select values to show (leave empty to show all)',
+            canPickMany: true
+        });
+
+        if (!selected) return;
+
+        this.setFilter({
+            statuses: selected.filter(item => item.dimension === 'statuses').map(item => item.value as FeatureStatus),
+            agents: selected.filter(item => item.dimension === 'agents').map(item => item.value!),
+            tags: selected.filter(item => item.dimension === 'tags').map(item => item.value!)
+        });
     }
 
     getTreeItem(element: FeatureSpecItem): vscode.TreeItem {
@@ -38,6 +175,10 @@ export class FeatureTreeProvider implements vscode.TreeDataProvider<FeatureSpecI
         
         if (element.resourceUri) {
             treeItem.resourceUri = element.resourceUri;
+        }
+
+        // Folders expand on click; specs and their artifacts open the file
+        if (element.resourceUri && (element.contextValue === 'featureSpec' || element.contextValue === 'specArtifact')) {
             treeItem.command = {
                 command: 'vscode.open',
                 title: 'Open',
@@ -45,6 +186,15 @@ export class FeatureTreeProvider implements vscode.TreeDataProvider<FeatureSpecI
             };
         }
 
+        // Plan tasks toggle their checkbox on click
+        if (element.contextValue === 'planTask') {
+            treeItem.command = {
+                command: 'codespec.togglePlanTask',
+                title: 'Toggle Task',
+                arguments: [element]
+            };
+        }
+
         return treeItem;
     }
 
@@ -75,41 +225,388 @@ export class FeatureTreeProvider implements vscode.TreeDataProvider<FeatureSpecI
 
     private async loadFeatureFiles(): Promise<void> {
         try {
+            this.roots = await Promise.all(this.fileService.getWorkspaceFolders().map(async folder => ({
+                folder,
+                tree: await this.fileService.listFeatureTree(folder)
+            })));
             const files = await this.fileService.listFeatureFiles();
-            this.data = this.buildTreeStructure(files);
-            console.log(`📋 Loaded ${this.data.length} feature files`);
+            this.specs = await Promise.all(files.map(async filePath => {
+                const artifacts = await this.fileService.listGeneratedArtifacts(filePath);
+                try {
+                    const spec = await this.fileService.readFeatureSpec(filePath);
+                    const plan = await this.fileService.loadImplementationPlan(filePath);
+                    return { filePath, data: spec.data, artifacts, plan };
+                } catch (error) {
+                    console.warn(`Failed to parse feature spec ${filePath}:`, error);
+                    return { filePath, artifacts };
+                }
+            }));
+            this.data = this.buildTreeStructure();
+            console.log(`📋 Loaded ${this.specs.length} feature files`);
         } catch (error) {
             console.error('Failed to load feature files:', error);
             // Show empty state with helpful message
+            this.roots = [];
+            this.specs = [];
             this.data = [this.createEmptyStateItem()];
         }
     }
 
-    private buildTreeStructure(files: string[]): FeatureSpecItem[] {
-        const items: FeatureSpecItem[] = [];
+    private rebuild(): void {
+        this.data = this.buildTreeStructure();
+        this._onDidChangeTreeData.fire();
+    }
+
+    private buildTreeStructure(): FeatureSpecItem[] {
+        const items = this.roots.length > 1
+            ? this.buildWorkspaceSections()
+            : this.buildLevel(this.roots[0]?.tree || []);
 
-        for (const filePath of files) {
-            const fileName = path.basename(filePath, '.md');
-            const displayName = this.formatDisplayName(fileName);
-            
-            const item = new FeatureSpecItem(
-                fileName,
-                displayName,
-                vscode.TreeItemCollapsibleState.None,
-                'featureSpec',
-                vscode.Uri.file(filePath)
+        if (items.length === 0 && this.specs.length > 0 && this.isFiltered()) {
+            return [this.createNoMatchesItem()];
+        }
+
+        return items;
+    }
+
+    /**
+     * Multi-root workspaces get one collapsible section per workspace folder.
+     */
+    private buildWorkspaceSections(): FeatureSpecItem[] {
+        const sections: FeatureSpecItem[] = [];
+
+        for (const root of this.roots) {
+            const section = new FeatureSpecItem(
+                `workspace:${root.folder.uri.fsPath}`,
+                root.folder.name,
+                vscode.TreeItemCollapsibleState.Expanded,
+                'workspaceFolder',
+                root.folder.uri
             );
 
-            item.description = 'Feature Spec';
-            item.tooltip = `${displayName} - Click to open`;
-            item.iconPath = new vscode.ThemeIcon('file-text');
-            
-            items.push(item);
+            section.tooltip = `${root.folder.uri.fsPath}/${this.fileService.getFeaturesDirectoryName(root.folder)}`;
+            section.iconPath = new vscode.ThemeIcon('root-folder');
+            section.children = this.buildLevel(root.tree, section);
+
+            if (section.children.length === 0 && this.isFiltered()) {
+                continue;
+            }
+
+            section.description = this.describeEpic(section);
+            sections.push(section);
+        }
+
+        return sections;
+    }
+
+    /**
+     * Builds one directory level: epic folders first, then the specs in the
+     * folder, grouped according to the current grouping mode.
+     */
+    private buildLevel(nodes: FeatureSpecFile[], parent?: FeatureSpecItem): FeatureSpecItem[] {
+        const epics: FeatureSpecItem[] = [];
+
+        for (const node of nodes.filter(n => n.type === 'directory')) {
+            const epic = this.createEpicItem(node);
+            epic.parent = parent;
+            epic.children = this.buildLevel(node.children || [], epic);
+
+            // Hide epics that have nothing left to show under the active filter
+            if (epic.children.length === 0 && this.isFiltered()) {
+                continue;
+            }
+
+            epic.description = this.describeEpic(epic);
+            epics.push(epic);
+        }
+
+        const specPaths = new Set(nodes.filter(n => n.type === 'feature').map(n => n.path));
+        const specs = this.specs.filter(spec => specPaths.has(spec.filePath) && this.matchesFilter(spec.data));
+
+        const groupBy = this.getGroupBy();
+        const specItems = groupBy === 'none'
+            ? this.sortItems(specs.map(spec => this.createSpecItem(spec, parent ? `${parent.id}/` : '')))
+            : this.buildGroups(specs, groupBy, parent);
+
+        for (const item of specItems) {
+            item.parent = parent;
+        }
+
+        return [...this.sortItems(epics), ...specItems];
+    }
+
+    private buildGroups(specs: LoadedSpec[], groupBy: TreeGroupBy, parent?: FeatureSpecItem): FeatureSpecItem[] {
+        const groups = new Map<string, LoadedSpec[]>();
+
+        for (const spec of specs) {
+            for (const key of this.getGroupKeys(spec.data, groupBy)) {
+                if (!groups.has(key)) {
+                    groups.set(key, []);
+                }
+                groups.get(key)!.push(spec);
+            }
+        }
+
+        const keys = [...groups.keys()].sort((a, b) => this.compareGroupKeys(a, b, groupBy));
+
+        return keys.map(key => {
+            const groupId = `${parent ? `${parent.id}/` : ''}group:${groupBy}:${key}`;
+            const members = groups.get(key)!;
+            const group = new FeatureSpecItem(
+                groupId,
+                key,
+                vscode.TreeItemCollapsibleState.Expanded,
+                'specGroup'
+            );
+
+            group.description = `${members.length}`;
+            group.tooltip = `${members.length} feature spec${members.length === 1 ? '' : 's'}`;
+            group.iconPath = new vscode.ThemeIcon(
+                groupBy === 'status' ? STATUS_ICONS[key as FeatureStatus] || 'folder' :
+                groupBy === 'agent' ? 'hubot' : 'tag'
+            );
+            group.children = this.sortItems(members.map(spec => {
+                const item = this.createSpecItem(spec, `${groupId}/`);
+                item.parent = group;
+                return item;
+            }));
+
+            return group;
+        });
+    }
+
+    private createEpicItem(node: FeatureSpecFile): FeatureSpecItem {
+        const displayName = this.formatDisplayName(node.name);
+
+        const item = new FeatureSpecItem(
+            `epic:${node.path}`,
+            displayName,
+            vscode.TreeItemCollapsibleState.Expanded,
+            'specEpic',
+            vscode.Uri.file(node.path)
+        );
+
+        item.tooltip = `Epic: ${displayName}`;
+        item.iconPath = new vscode.ThemeIcon('folder-library');
+
+        return item;
+    }
+
+    private describeEpic(epic: FeatureSpecItem): string {
+        let count = 0;
+        const countSpecs = (items: FeatureSpecItem[]) => {
+            for (const item of items) {
+                if (item.contextValue === 'featureSpec') {
+                    count++;
+                } else if (item.contextValue === 'specEpic' || item.contextValue === 'specGroup') {
+                    countSpecs(item.children || []);
+                }
+            }
+        };
+        countSpecs(epic.children || []);
+
+        return `${count} spec${count === 1 ? '' : 's'}`;
+    }
+
+    private getGroupKeys(data: FeatureSpecData | undefined, groupBy: TreeGroupBy): string[] {
+        switch (groupBy) {
+            case 'status':
+                return [data?.status || 'Draft'];
+            case 'agent':
+                return [data?.cliAgent || 'Not Set'];
+            case 'tag':
+                return data?.tags && data.tags.length > 0 ? data.tags : ['Untagged'];
+            default:
+                return [];
         }
+    }
 
+    private compareGroupKeys(a: string, b: string, groupBy: TreeGroupBy): number {
+        if (groupBy === 'status') {
+            return FEATURE_STATUSES.indexOf(a as FeatureStatus) - FEATURE_STATUSES.indexOf(b as FeatureStatus);
+        }
+        // Keep catch-all groups at the bottom
+        if (a === 'Untagged' || a === 'Not Set') return 1;
+        if (b === 'Untagged' || b === 'Not Set') return -1;
+        return a.localeCompare(b);
+    }
+
+    private matchesFilter(data?: FeatureSpecData): boolean {
+        const { statuses, agents, tags } = this.filter;
+
+        if (statuses.length > 0 && !statuses.includes(data?.status || 'Draft')) {
+            return false;
+        }
+        if (agents.length > 0 && !agents.includes(data?.cliAgent || 'Not Set')) {
+            return false;
+        }
+        if (tags.length > 0 && !(data?.tags || []).some(tag => tags.includes(tag))) {
+            return false;
+        }
+        return true;
+    }
+
+    private createSpecItem(spec: LoadedSpec, idPrefix: string = ''): FeatureSpecItem {
+        const fileName = path.basename(spec.filePath, '.md');
+        const displayName = this.formatDisplayName(fileName);
+
+        const item = new FeatureSpecItem(
+            `${idPrefix}${spec.filePath}`,
+            displayName,
+            spec.artifacts.length > 0 || spec.plan
+                ? vscode.TreeItemCollapsibleState.Collapsed
+                : vscode.TreeItemCollapsibleState.None,
+            'featureSpec',
+            vscode.Uri.file(spec.filePath)
+        );
+
+        item.data = spec.data;
+        item.description = spec.data?.status || 'Feature Spec';
+        item.tooltip = this.buildSpecTooltip(displayName, spec.data, spec.plan);
+        item.iconPath = new vscode.ThemeIcon(spec.data ? STATUS_ICONS[spec.data.status] : 'file-text');
+
+        if (spec.plan) {
+            item.description += ` · ${this.formatPercent(spec.plan)}`;
+        }
+
+        if (spec.artifacts.length > 0 || spec.plan) {
+            item.children = spec.artifacts.map(artifact => this.createArtifactItem(item, artifact));
+            if (spec.plan) {
+                item.children.push(this.createPlanItem(item, spec.filePath, spec.plan));
+            }
+        }
+
+        return item;
+    }
+
+    private createPlanItem(parent: FeatureSpecItem, specPath: string, plan: ImplementationPlan): FeatureSpecItem {
+        const item = new FeatureSpecItem(
+            `${parent.id}/tasks`,
+            'Tasks',
+            vscode.TreeItemCollapsibleState.Expanded,
+            'planTasks'
+        );
+
+        item.parent = parent;
+        item.specPath = specPath;
+        item.description = `${plan.completed}/${plan.total} (${this.formatPercent(plan)})`;
+        item.tooltip = `Implementation plan tasks for ${parent.label}`;
+        item.iconPath = new vscode.ThemeIcon('tasklist');
+
+        // A plan without headings lists its tasks directly
+        item.children = plan.groups.length === 1 && !plan.groups[0].heading
+            ? plan.groups[0].tasks.map(task => this.createTaskItem(item, specPath, task))
+            : plan.groups.map((group, index) => this.createTaskGroupItem(item, specPath, group, index));
+
+        return item;
+    }
+
+    private createTaskGroupItem(parent: FeatureSpecItem, specPath: string, group: PlanTaskGroup, index: number): FeatureSpecItem {
+        const { total, completed } = this.planParser.countTasks(group.tasks);
+        const item = new FeatureSpecItem(
+            `${parent.id}/${index}`,
+            group.heading || 'General',
+            completed === total
+                ? vscode.TreeItemCollapsibleState.Collapsed
+                : vscode.TreeItemCollapsibleState.Expanded,
+            'planTaskGroup'
+        );
+
+        item.parent = parent;
+        item.specPath = specPath;
+        item.description = `${completed}/${total}`;
+        item.iconPath = new vscode.ThemeIcon(completed === total ? 'pass' : 'list-unordered');
+        item.children = group.tasks.map(task => this.createTaskItem(item, specPath, task));
+
+        return item;
+    }
+
+    private createTaskItem(parent: FeatureSpecItem, specPath: string, task: PlanTask): FeatureSpecItem {
+        const item = new FeatureSpecItem(
+            `${parent.id}#${task.id.substring(task.id.lastIndexOf('/') + 1)}`,
+            task.text,
+            task.children.length > 0
+                ? vscode.TreeItemCollapsibleState.Expanded
+                : vscode.TreeItemCollapsibleState.None,
+            'planTask'
+        );
+
+        item.parent = parent;
+        item.specPath = specPath;
+        item.task = task;
+        item.tooltip = `${task.text}\n\nClick to mark as ${task.done ? 'not done' : 'done'}`;
+        item.iconPath = task.done
+            ? new vscode.ThemeIcon('pass-filled', new vscode.ThemeColor('testing.iconPassed'))
+            : new vscode.ThemeIcon('circle-large-outline');
+        item.children = task.children.map(child => this.createTaskItem(item, specPath, child));
+
+        return item;
+    }
+
+    private formatPercent(plan: ImplementationPlan): string {
+        return `${Math.round((plan.completed / plan.total) * 100)}%`;
+    }
+
+    private createArtifactItem(parent: FeatureSpecItem, artifact: GeneratedArtifact): FeatureSpecItem {
+        const { label, icon } = ARTIFACT_LABELS[artifact.type];
+
+        const item = new FeatureSpecItem(
+            `${parent.id}/${artifact.type}`,
+            label,
+            vscode.TreeItemCollapsibleState.None,
+            'specArtifact',
+            vscode.Uri.file(artifact.path)
+        );
+
+        item.parent = parent;
+        item.description = path.basename(artifact.path);
+        item.tooltip = `${label} for ${parent.label} - Click to open`;
+        item.iconPath = new vscode.ThemeIcon(icon);
+
+        return item;
+    }
+
+    private buildSpecTooltip(displayName: string, data?: FeatureSpecData, plan?: ImplementationPlan): string {
+        if (!data) {
+            return `${displayName} - Click to open`;
+        }
+
+        const lines = [
+            displayName,
+            `Status: ${data.status}`,
+            `CLI Agent: ${data.cliAgent}`
+        ];
+        if (data.tags && data.tags.length > 0) {
+            lines.push(`Tags: ${data.tags.join(', ')}`);
+        }
+        if (data.lastUpdated) {
+            lines.push(`Last Updated: ${data.lastUpdated}`);
+        }
+        if (plan) {
+            lines.push(`Plan: ${plan.completed} of ${plan.total} tasks done (${this.formatPercent(plan)})`);
+        }
+
+        return lines.join('\n');
+    }
+
+    private sortItems(items: FeatureSpecItem[]): FeatureSpecItem[] {
         return items.sort((a, b) => a.label.localeCompare(b.label));
     }
 
+    private collectValues(selector: (data: FeatureSpecData) => string[]): string[] {
+        const values = new Set<string>();
+        for (const spec of this.specs) {
+            if (spec.data) {
+                selector(spec.data).forEach(value => values.add(value));
+            }
+        }
+        return [...values].sort((a, b) => a.localeCompare(b));
+    }
+
+    private updateFilterContext(): void {
+        vscode.commands.executeCommand('setContext', 'codespec.treeFiltered', this.isFiltered());
+    }
+
     private formatDisplayName(fileName: string): string {
         return fileName
             .split('-')
@@ -130,6 +627,18 @@ export class FeatureTreeProvider implements vscode.TreeDataProvider<FeatureSpecI
         return item;
     }
 
+    private createNoMatchesItem(): FeatureSpecItem {
+        const item = new FeatureSpecItem(
+            'no-matches',
+            'No feature specs match the current filter',
+            vscode.TreeItemCollapsibleState.None,
+            'emptyState'
+        );
+        item.tooltip = 'Use "Clear Filter" to show all feature specs';
+        item.iconPath = new vscode.ThemeIcon('filter');
+        return item;
+    }
+
     private createAgentStatusItem(): FeatureSpecItem | null {
         const selectedAgent = this.agentManager.getSelectedAgent();
         const availableAgentsCount = this.agentManager.getAvailableAgentsCount();
@@ -194,40 +703,66 @@ export class FeatureTreeProvider implements vscode.TreeDataProvider<FeatureSpecI
         });
     }
 
+    private setupConfigurationEvents(): void {
+        this.configListener = vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('codespec.tree.groupBy')) {
+                console.log('⚙️ Tree grouping changed, rebuilding tree view...');
+                this.rebuild();
+            }
+            if (event.affectsConfiguration('codespec.featuresDirectory')) {
+                console.log('⚙️ Features directory changed, reloading tree view...');
+                this.watchFiles();
+                this.refresh();
+            }
+        });
+
+        this.workspaceListener = vscode.workspace.onDidChangeWorkspaceFolders(() => {
+            console.log('📂 Workspace folders changed, reloading tree view...');
+            this.watchFiles();
+            this.refresh();
+        });
+    }
+
     private watchFiles(): void {
+        this.disposeWatchers();
+
         try {
-            const workspaceFolders = vscode.workspace.workspaceFolders;
-            if (!workspaceFolders || workspaceFolders.length === 0) {
-                return;
-            }
+            // Watch recursively so epic folders and the specs inside them are picked up
+            for (const folder of this.fileService.getWorkspaceFolders()) {
+                const directory = this.fileService.getFeaturesDirectoryName(folder);
+                const pattern = new vscode.RelativePattern(folder, `${directory}/**`);
+                const watcher = vscode.workspace.createFileSystemWatcher(pattern);
+                
+                watcher.onDidCreate(() => {
+                    console.log('📁 Feature file created, refreshing tree...');
+                    this.refresh();
+                });
+                
+                watcher.onDidDelete(() => {
+                    console.log('🗑️ Feature file deleted, refreshing tree...');
+                    this.refresh();
+                });
+                
+                watcher.onDidChange(() => {
+                    console.log('✏️ Feature file changed, refreshing tree...');
+                    this.refresh();
+                });
 
-            const workspaceRoot = workspaceFolders[0].uri.fsPath;
-            const pattern = path.join(workspaceRoot, '.features', '*.md');
-            
-            this.fileWatcher = vscode.workspace.createFileSystemWatcher(pattern);
-            
-            this.fileWatcher.onDidCreate(() => {
-                console.log('📁 Feature file created, refreshing tree...');
-                this.refresh();
-            });
-            
-            this.fileWatcher.onDidDelete(() => {
-                console.log('🗑️ Feature file deleted, refreshing tree...');
-                this.refresh();
-            });
-            
-            this.fileWatcher.onDidChange(() => {
-                console.log('✏️ Feature file changed, refreshing tree...');
-                this.refresh();
-            });
+                this.fileWatchers.push(watcher);
+            }
         } catch (error) {
             console.error('Failed to set up file watcher:', error);
         }
     }
 
+    private disposeWatchers(): void {
+        this.fileWatchers.forEach(watcher => watcher.dispose());
+        this.fileWatchers = [];
+    }
+
     dispose(): void {
-        if (this.fileWatcher) {
-            this.fileWatcher.dispose();
-        }
+        this.disposeWatchers();
+        this.configListener?.dispose();
+        this.workspaceListener?.dispose();
     }
 }
\ No newline at end of file
@@ -0,0 +1,46 @@
+import * as vscode from 'vscode';
+
+/**
+ * Serves in-memory file contents proposed by code generation so they can be
+ * opened in the diff editor before anything is written to disk.
+ */
+export class ProposedChangeProvider implements vscode.TextDocumentContentProvider, vscode.Disposable {
+    static readonly scheme = 'codespec-proposed';
+
+    private contents = new Map<string, string>();
+    private _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+    readonly onDidChange = this._onDidChange.event;
+    private generation = 0;
+
+    /**
+     * Starts a new set of proposals; their URIs differ from earlier sets so
+     * open diff editors do not show stale content.
+     */
+    beginSession(): number {
+        return ++this.generation;
+    }
+
+    setContent(session: number, relativePath: string, content: string): vscode.Uri {
+        const uri = vscode.Uri.from({
+            scheme: ProposedChangeProvider.scheme,
+            path: `/${relativePath}`,
+            query: `session=${session}`
+        });
+        this.contents.set(uri.toString(), content);
+        this._onDidChange.fire(uri);
+        return uri;
+    }
+
+    clear(uris: vscode.Uri[]): void {
+        uris.forEach(uri => this.contents.delete(uri.toString()));
+    }
+
+    provideTextDocumentContent(uri: vscode.Uri): string {
+        return this.contents.get(uri.toString()) ?? '';
+    }
+
+    dispose(): void {
+        this.contents.clear();
+        this._onDidChange.dispose();
+    }
+}
@@ -0,0 +1,517 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { FileService } from '../services/fileService';
+import { SpecParser, SPEC_SECTIONS, DO_NOT_EDIT_MARKER } from '../utils/specParser';
+
+type SpecDiagnosticCode =
+    | 'placeholder'
+    | 'missing-section'
+    | 'empty-section'
+    | 'missing-file'
+    | 'below-marker';
+
+interface ScannedLine {
+    text: string;
+    // Inside a code fence or an HTML comment
+    ignored: boolean;
+}
+
+interface ScannedSection {
+    heading: string;
+    line: number;
+    endLine: number;
+}
+
+interface ScannedSpec {
+    lines: ScannedLine[];
+    sections: ScannedSection[];
+    markerLine: number;
+}
+
+const REQUIRED_SECTIONS = [SPEC_SECTIONS.DESCRIPTION, SPEC_SECTIONS.ACCEPTANCE_CRITERIA];
+
+const GENERATED_SECTIONS = [
+    SPEC_SECTIONS.CLARIFYING_QUESTIONS,
+    SPEC_SECTIONS.IMPLEMENTATION_PLAN,
+    SPEC_SECTIONS.METADATA
+];
+
+// Template placeholders look like "[Provide a clear, concise description...]";
+// checkboxes, footnotes and links do not match
+const PLACEHOLDER_PATTERN = /\[([A-Z][^\]\n]{3,})\](?![(\[:])/g;
+const LIST_ITEM_PATTERN = /^\s*(?:[-*+]|\d+\.)\s+(?:\[[ xX]\]\s*)?(.*)$/;
+
+/**
+ * Lints feature specs before they are sent to an agent: leftover template
+ * placeholders, missing or empty required sections, important files that do
+ * not exist and hand edits below the "DO NOT EDIT" marker. Also provides the
+ * quick fixes for those diagnostics.
+ */
+export class SpecDiagnosticsProvider implements vscode.CodeActionProvider, vscode.Disposable {
+    static readonly SOURCE = 'codespec';
+    static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+    private static readonly UPDATE_DELAY = 300;
+
+    private readonly diagnostics = vscode.languages.createDiagnosticCollection('codespec');
+    private readonly specParser = new SpecParser();
+    private readonly pendingUpdates = new Map<string, NodeJS.Timeout>();
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor(private fileService: FileService) {
+        this.disposables.push(
+            this.diagnostics,
+            vscode.workspace.onDidOpenTextDocument(document => this.scheduleUpdate(document, 0)),
+            vscode.workspace.onDidChangeTextDocument(event => this.scheduleUpdate(event.document)),
+            vscode.workspace.onDidSaveTextDocument(document => this.scheduleUpdate(document, 0)),
+            vscode.workspace.onDidCloseTextDocument(document => this.clear(document.uri)),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('codespec.diagnostics') || event.affectsConfiguration('codespec.featuresDirectory')) {
+                    this.refreshAll();
+                }
+            })
+        );
+
+        this.refreshAll();
+    }
+
+    refreshAll(): void {
+        this.diagnostics.clear();
+        vscode.workspace.textDocuments.forEach(document => this.scheduleUpdate(document, 0));
+    }
+
+    provideCodeActions(
+        document: vscode.TextDocument,
+        _range: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext
+    ): vscode.CodeAction[] {
+        const actions: vscode.CodeAction[] = [];
+        const scanned = this.scan(document);
+
+        for (const diagnostic of context.diagnostics) {
+            if (diagnostic.source !== SpecDiagnosticsProvider.SOURCE) {
+                continue;
+            }
+
+            switch (diagnostic.code as SpecDiagnosticCode) {
+                case 'placeholder':
+                    actions.push(this.createRemovePlaceholderFix(document, diagnostic));
+                    break;
+                case 'missing-file':
+                    actions.push(this.createDeleteLineFix(document, diagnostic, 'Remove file from Important Files'));
+                    break;
+                case 'missing-section':
+                    actions.push(...this.createAddSectionFixes(document, scanned, diagnostic));
+                    break;
+                case 'empty-section':
+                    if (document.lineAt(diagnostic.range.start.line).text.includes(SPEC_SECTIONS.ACCEPTANCE_CRITERIA)) {
+                        actions.push(this.createAddCriterionFix(document, diagnostic));
+                    }
+                    break;
+                case 'below-marker': {
+                    const fix = this.createMoveAboveMarkerFix(document, scanned, diagnostic);
+                    if (fix) {
+                        actions.push(fix);
+                    }
+                    break;
+                }
+            }
+        }
+
+        return actions;
+    }
+
+    private isEnabled(uri: vscode.Uri): boolean {
+        return vscode.workspace.getConfiguration('codespec', uri).get<boolean>('diagnostics.enabled', true);
+    }
+
+    private scheduleUpdate(document: vscode.TextDocument, delay = SpecDiagnosticsProvider.UPDATE_DELAY): void {
+        if (document.uri.scheme !== 'file' || document.languageId !== 'markdown') {
+            return;
+        }
+
+        const key = document.uri.toString();
+        const pending = this.pendingUpdates.get(key);
+        if (pending) {
+            clearTimeout(pending);
+        }
+
+        this.pendingUpdates.set(key, setTimeout(() => {
+            this.pendingUpdates.delete(key);
+            this.update(document).catch(error => {
+                console.error('Failed to update spec diagnostics:', error);
+            });
+        }, delay));
+    }
+
+    private clear(uri: vscode.Uri): void {
+        const key = uri.toString();
+        const pending = this.pendingUpdates.get(key);
+        if (pending) {
+            clearTimeout(pending);
+            this.pendingUpdates.delete(key);
+        }
+        this.diagnostics.delete(uri);
+    }
+
+    private async update(document: vscode.TextDocument): Promise<void> {
+        if (!this.isEnabled(document.uri) || !(await this.fileService.isFeatureSpecPath(document.uri.fsPath))) {
+            this.diagnostics.delete(document.uri);
+            return;
+        }
+
+        const version = document.version;
+        const diagnostics = await this.lint(document);
+
+        // Drop results for text that has changed while files were being checked
+        if (!document.isClosed && document.version === version) {
+            this.diagnostics.set(document.uri, diagnostics);
+        }
+    }
+
+    private async lint(document: vscode.TextDocument): Promise<vscode.Diagnostic[]> {
+        const scanned = this.scan(document);
+        const editableEnd = scanned.markerLine === -1 ? scanned.lines.length : scanned.markerLine;
+
+        return [
+            ...this.checkPlaceholders(scanned, editableEnd),
+            ...this.checkRequiredSections(scanned, editableEnd),
+            ...await this.checkImportantFiles(document, scanned, editableEnd),
+            ...this.checkBelowMarker(document, scanned)
+        ];
+    }
+
+    private checkPlaceholders(scanned: ScannedSpec, editableEnd: number): vscode.Diagnostic[] {
+        const diagnostics: vscode.Diagnostic[] = [];
+
+        for (let line = 0; line < editableEnd; line++) {
+            const { text, ignored } = scanned.lines[line];
+            if (ignored) continue;
+
+            // Blank out inline code so `arr[Index]` is not mistaken for a placeholder
+            const searchable = text.replace(/`[^`]*`/g, match => ' '.repeat(match.length));
+            for (const match of searchable.matchAll(PLACEHOLDER_PATTERN)) {
+                const start = match.index!;
+                diagnostics.push(this.createDiagnostic(
+                    new vscode.Range(line, start, line, start + match[0].length),
+                    'Template placeholder has not been filled in',
+                    'placeholder',
+                    vscode.DiagnosticSeverity.Warning
+                ));
+            }
+        }
+
+        return diagnostics;
+    }
+
+    private checkRequiredSections(scanned: ScannedSpec, editableEnd: number): vscode.Diagnostic[] {
+        const diagnostics: vscode.Diagnostic[] = [];
+
+        for (const heading of REQUIRED_SECTIONS) {
+            const section = scanned.sections.find(candidate => candidate.heading === heading && candidate.line < editableEnd);
+            if (!section) {
+                diagnostics.push(this.createDiagnostic(
+                    new vscode.Range(0, 0, 0, scanned.lines[0]?.text.length ?? 0),
+                    `Required section "${heading}" is missing`,
+                    'missing-section',
+                    vscode.DiagnosticSeverity.Warning
+                ));
+                continue;
+            }
+
+            const content = this.getContentLines(scanned, section);
+            const filled = heading === SPEC_SECTIONS.ACCEPTANCE_CRITERIA
+                ? content.some(text => this.isFilledListItem(text))
+                : content.some(text => !this.isPlaceholderOnly(text));
+
+            if (!filled) {
+                diagnostics.push(this.createDiagnostic(
+                    new vscode.Range(section.line, 0, section.line, scanned.lines[section.line].text.length),
+                    heading === SPEC_SECTIONS.ACCEPTANCE_CRITERIA
+                        ? 'Acceptance Criteria has no criteria; add at least one "- [ ]" item'
+                        : `Section "${heading}" is empty`,
+                    'empty-section',
+                    vscode.DiagnosticSeverity.Warning
+                ));
+            }
+        }
+
+        return diagnostics;
+    }
+
+    private async checkImportantFiles(
+        document: vscode.TextDocument,
+        scanned: ScannedSpec,
+        editableEnd: number
+    ): Promise<vscode.Diagnostic[]> {
+        const section = scanned.sections.find(
+            candidate => candidate.heading === SPEC_SECTIONS.IMPORTANT_FILES && candidate.line < editableEnd
+        );
+        if (!section) {
+            return [];
+        }
+
+        const workspaceRoot = this.fileService.getWorkspaceFolder(document.uri.fsPath).uri.fsPath;
+        const diagnostics: vscode.Diagnostic[] = [];
+
+        for (let line = section.line + 1; line < Math.min(section.endLine, editableEnd); line++) {
+            const { text, ignored } = scanned.lines[line];
+            const item = ignored ? null : text.match(LIST_ITEM_PATTERN);
+            if (!item) continue;
+
+            const reference = this.extractFileReference(text);
+            if (!reference) continue;
+
+            const filePath = path.isAbsolute(reference.path) ? reference.path : path.resolve(workspaceRoot, reference.path);
+            try {
+                await fs.promises.access(filePath);
+            } catch {
+                diagnostics.push(this.createDiagnostic(
+                    new vscode.Range(line, reference.start, line, reference.start + reference.path.length),
+                    `File "${reference.path}" does not exist in the workspace`,
+                    'missing-file',
+                    vscode.DiagnosticSeverity.Warning
+                ));
+            }
+        }
+
+        return diagnostics;
+    }
+
+    private checkBelowMarker(document: vscode.TextDocument, scanned: ScannedSpec): vscode.Diagnostic[] {
+        if (scanned.markerLine === -1) {
+            return [];
+        }
+
+        const diagnostics: vscode.Diagnostic[] = [];
+        const { metadata } = this.specParser.parse(document.getText());
+        const generatedAt: Record<string, string | undefined> = {
+            [SPEC_SECTIONS.CLARIFYING_QUESTIONS]: metadata.questionsGenerated,
+            [SPEC_SECTIONS.IMPLEMENTATION_PLAN]: metadata.planGenerated
+        };
+
+        for (const section of scanned.sections) {
+            if (section.line < scanned.markerLine) continue;
+            const range = new vscode.Range(section.line, 0, section.line, scanned.lines[section.line].text.length);
+
+            if (!GENERATED_SECTIONS.includes(section.heading)) {
+                diagnostics.push(this.createDiagnostic(
+                    range,
+                    `Section "${section.heading}" is below the "${DO_NOT_EDIT_MARKER}" marker and may be overwritten`,
+                    'below-marker',
+                    vscode.DiagnosticSeverity.Warning
+                ));
+            } else if (section.heading in generatedAt && !generatedAt[section.heading]
+                && this.getContentLines(scanned, section).length > 0) {
+                // Content without a generation timestamp was written by hand
+                diagnostics.push(this.createDiagnostic(
+                    range,
+                    `"${section.heading}" has content that was not generated; it may be replaced on the next run`,
+                    'below-marker',
+                    vscode.DiagnosticSeverity.Information
+                ));
+            }
+        }
+
+        return diagnostics;
+    }
+
+    private createRemovePlaceholderFix(document: vscode.TextDocument, diagnostic: vscode.Diagnostic): vscode.CodeAction {
+        const line = document.lineAt(diagnostic.range.start.line);
+        const remaining = (
+            line.text.substring(0, diagnostic.range.start.character) +
+            line.text.substring(diagnostic.range.end.character)
+        ).replace(/\s+[-–—:]\s*$/, '').trimEnd();
+
+        // A list item or paragraph that only held the placeholder goes entirely
+        if (/^\s*(?:(?:[-*+]|\d+\.)\s*(?:\[[ xX]\])?)?\s*$/.test(remaining)) {
+            return this.createDeleteLineFix(document, diagnostic, 'Remove placeholder line');
+        }
+
+        const action = new vscode.CodeAction('Remove placeholder', vscode.CodeActionKind.QuickFix);
+        action.edit = new vscode.WorkspaceEdit();
+        action.edit.replace(document.uri, line.range, remaining);
+        action.diagnostics = [diagnostic];
+        return action;
+    }
+
+    private createDeleteLineFix(document: vscode.TextDocument, diagnostic: vscode.Diagnostic, title: string): vscode.CodeAction {
+        const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+        action.edit = new vscode.WorkspaceEdit();
+        action.edit.delete(document.uri, document.lineAt(diagnostic.range.start.line).rangeIncludingLineBreak);
+        action.diagnostics = [diagnostic];
+        action.isPreferred = true;
+        return action;
+    }
+
+    private createAddSectionFixes(
+        document: vscode.TextDocument,
+        scanned: ScannedSpec,
+        diagnostic: vscode.Diagnostic
+    ): vscode.CodeAction[] {
+        const heading = REQUIRED_SECTIONS.find(candidate => diagnostic.message.includes(`"${candidate}"`));
+        if (!heading) {
+            return [];
+        }
+
+        // Insert before the first section that comes after it in the template order
+        const order = Object.values(SPEC_SECTIONS);
+        const later = order.slice(order.indexOf(heading) + 1);
+        const next = scanned.sections.find(section => later.includes(section.heading));
+        const insertLine = next ? next.line : this.findGeneratedBoundary(scanned);
+
+        const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+        const body = heading === SPEC_SECTIONS.ACCEPTANCE_CRITERIA ? '- [ ] ' : '';
+        const action = new vscode.CodeAction(`Add "${heading}" section`, vscode.CodeActionKind.QuickFix);
+        action.edit = new vscode.WorkspaceEdit();
+        action.edit.insert(document.uri, new vscode.Position(insertLine, 0), `## ${heading}${eol}${eol}${body}${eol}${eol}`);
+        action.diagnostics = [diagnostic];
+        action.isPreferred = true;
+        return [action];
+    }
+
+    private createAddCriterionFix(document: vscode.TextDocument, diagnostic: vscode.Diagnostic): vscode.CodeAction {
+        const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+        const headingLine = diagnostic.range.start.line;
+        const action = new vscode.CodeAction('Add an acceptance criterion', vscode.CodeActionKind.QuickFix);
+        action.edit = new vscode.WorkspaceEdit();
+        action.edit.insert(document.uri, document.lineAt(headingLine).range.end, `${eol}${eol}- [ ] `);
+        action.diagnostics = [diagnostic];
+        return action;
+    }
+
+    private createMoveAboveMarkerFix(
+        document: vscode.TextDocument,
+        scanned: ScannedSpec,
+        diagnostic: vscode.Diagnostic
+    ): vscode.CodeAction | undefined {
+        const section = scanned.sections.find(candidate => candidate.line === diagnostic.range.start.line);
+        if (!section || GENERATED_SECTIONS.includes(section.heading)) {
+            return undefined;
+        }
+
+        const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+        const atEnd = section.endLine >= document.lineCount;
+        const sectionRange = new vscode.Range(
+            new vscode.Position(section.line, 0),
+            atEnd ? document.lineAt(document.lineCount - 1).range.end : new vscode.Position(section.endLine, 0)
+        );
+        const text = document.getText(sectionRange) + (atEnd ? eol : '');
+
+        const action = new vscode.CodeAction('Move section above the DO NOT EDIT marker', vscode.CodeActionKind.QuickFix);
+        action.edit = new vscode.WorkspaceEdit();
+        action.edit.insert(document.uri, new vscode.Position(this.findGeneratedBoundary(scanned), 0), text);
+        action.edit.delete(document.uri, sectionRange);
+        action.diagnostics = [diagnostic];
+        return action;
+    }
+
+    /**
+     * Line where user-written sections end: the horizontal rule above the
+     * DO NOT EDIT marker, the marker itself, or the end of the document.
+     */
+    private findGeneratedBoundary(scanned: ScannedSpec): number {
+        if (scanned.markerLine === -1) {
+            return scanned.lines.length;
+        }
+
+        let line = scanned.markerLine - 1;
+        while (line >= 0 && scanned.lines[line].text.trim().length === 0) {
+            line--;
+        }
+        return line >= 0 && /^\s*(-{3,}|\*{3,}|_{3,})\s*$/.test(scanned.lines[line].text) ? line : scanned.markerLine;
+    }
+
+    private scan(document: vscode.TextDocument): ScannedSpec {
+        const lines: ScannedLine[] = [];
+        const sections: ScannedSection[] = [];
+        let markerLine = -1;
+        let inFence = false;
+        let inComment = false;
+
+        for (let line = 0; line < document.lineCount; line++) {
+            const text = document.lineAt(line).text;
+
+            if (markerLine === -1 && text.includes(DO_NOT_EDIT_MARKER)) {
+                markerLine = line;
+            }
+
+            if (/^\s*(```|~~~)/.test(text)) {
+                inFence = !inFence;
+                lines.push({ text, ignored: true });
+                continue;
+            }
+
+            const commentLine = inComment || text.trim().startsWith('<!--');
+            if (!inFence && commentLine) {
+                inComment = !text.includes('-->');
+            }
+            lines.push({ text, ignored: inFence || commentLine });
+
+            const heading = !inFence && !commentLine ? text.match(/^##\s+(.+?)\s*#*\s*$/) : null;
+            if (heading) {
+                if (sections.length > 0) {
+                    sections[sections.length - 1].endLine = line;
+                }
+                sections.push({ heading: heading[1], line, endLine: document.lineCount });
+            }
+        }
+
+        // A section stops at the DO NOT EDIT marker like it does in the parser
+        for (const section of sections) {
+            if (section.line < markerLine && section.endLine > markerLine) {
+                section.endLine = this.findGeneratedBoundary({ lines, sections, markerLine });
+            }
+        }
+
+        return { lines, sections, markerLine };
+    }
+
+    private getContentLines(scanned: ScannedSpec, section: ScannedSection): string[] {
+        return scanned.lines
+            .slice(section.line + 1, section.endLine)
+            .filter(line => !line.ignored && line.text.trim().length > 0)
+            .map(line => line.text);
+    }
+
+    private isFilledListItem(text: string): boolean {
+        const item = text.match(LIST_ITEM_PATTERN);
+        return !!item && item[1].trim().length > 0 && !this.isPlaceholderOnly(item[1]);
+    }
+
+    private isPlaceholderOnly(text: string): boolean {
+        return text.replace(PLACEHOLDER_PATTERN, '').replace(/^\s*(?:[-*+]|\d+\.)\s*(?:\[[ xX]\])?/, '').trim().length === 0;
+    }
+
+    private extractFileReference(text: string): { path: string; start: number } | undefined {
+        const code = text.match(/`([^`]+)`/);
+        if (code) {
+            return { path: code[1].trim(), start: code.index! + 1 };
+        }
+
+        const item = text.match(LIST_ITEM_PATTERN);
+        const candidate = item?.[1].split(/\s+/)[0];
+        if (!candidate || !/[\\/.]/.test(candidate) || /^\[/.test(candidate)) {
+            return undefined;
+        }
+        return { path: candidate, start: text.indexOf(candidate) };
+    }
+
+    private createDiagnostic(
+        range: vscode.Range,
+        message: string,
+        code: SpecDiagnosticCode,
+        severity: vscode.DiagnosticSeverity
+    ): vscode.Diagnostic {
+        const diagnostic = new vscode.Diagnostic(range, message, severity);
+        diagnostic.source = SpecDiagnosticsProvider.SOURCE;
+        diagnostic.code = code;
+        return diagnostic;
+    }
+
+    dispose(): void {
+        this.pendingUpdates.forEach(timer => clearTimeout(timer));
+        this.pendingUpdates.clear();
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
@@ -2,19 +2,34 @@ import * as vscode from 'vscode';
 import { CLIAgentInfo, CLIFeature } from '../models/cliAgent';
 import { CLIDetector } from '../utils/cliDetector';
 
+// The model is only recorded for HTTP agents
+interface StoredAgentSelection {
+    name: string;
+    model?: string;
+}
+
 export class AgentManager {
     private static instance: AgentManager;
+    private static readonly SELECTED_AGENT_KEY = 'codespec.selectedAgent';
     private availableAgents: CLIAgentInfo[] = [];
     private selectedAgent: CLIAgentInfo | null = null;
     private detector: CLIDetector;
     private onAgentChangedEmitter = new vscode.EventEmitter<CLIAgentInfo | null>();
     private onAgentsRefreshedEmitter = new vscode.EventEmitter<CLIAgentInfo[]>();
+    private configListener: vscode.Disposable;
+    private workspaceState?: vscode.Memento;
 
     public readonly onAgentChanged = this.onAgentChangedEmitter.event;
     public readonly onAgentsRefreshed = this.onAgentsRefreshedEmitter.event;
 
     private constructor() {
         this.detector = new CLIDetector();
+        this.configListener = vscode.workspace.onDidChangeConfiguration(event => {
+            if (['codespec.agents', 'codespec.claude', 'codespec.gemini'].some(section => event.affectsConfiguration(section))) {
+                console.log('⚙️ Agent settings changed, detecting agents again...');
+                this.initializeAgents();
+            }
+        });
     }
 
     public static getInstance(): AgentManager {
@@ -24,16 +39,36 @@ export class AgentManager {
         return AgentManager.instance;
     }
 
+    /**
+     * Remembers the agent the user switched to in this workspace, so it is
+     * selected again after a reload. Call before initializeAgents.
+     */
+    useWorkspaceState(state: vscode.Memento): void {
+        this.workspaceState = state;
+    }
+
     async initializeAgents(): Promise<void> {
         try {
+            const previous: StoredAgentSelection | undefined = this.selectedAgent
+                ? { name: this.selectedAgent.name, model: this.selectedAgent.endpoint?.model }
+                : this.workspaceState?.get<StoredAgentSelection>(AgentManager.SELECTED_AGENT_KEY);
             this.availableAgents = await this.detector.detectAllAvailableAgents();
-            
-            // Auto-select the first available and authenticated agent
+
+            // Keep the current or remembered agent, e.g. after a reload or a settings change
+            const keptAgent = this.availableAgents.find(agent => agent.name === previous?.name && agent.isAvailable);
+            if (keptAgent?.endpoint && previous?.model && keptAgent.endpoint.models.includes(previous.model)) {
+                keptAgent.endpoint.model = previous.model;
+                keptAgent.version = previous.model;
+            }
+
+            // Otherwise auto-select the first available and authenticated agent
             const authenticatedAgent = this.availableAgents.find(
                 agent => agent.isAvailable && agent.isAuthenticated
             );
             
-            if (authenticatedAgent) {
+            if (keptAgent) {
+                this.selectedAgent = keptAgent;
+            } else if (authenticatedAgent) {
                 this.selectedAgent = authenticatedAgent;
             } else {
                 // Fallback to first available agent (even if not authenticated)
@@ -41,6 +76,13 @@ export class AgentManager {
                 this.selectedAgent = availableAgent || null;
             }
 
+            if (previous && !keptAgent) {
+                const missing = this.availableAgents.find(agent => agent.name === previous.name)?.displayName ?? previous.name;
+                vscode.window.showWarningMessage(
+                    `${missing} is not available. Using ${this.selectedAgent?.displayName ?? 'no agent'} until it is.`
+                );
+            }
+
             this.onAgentsRefreshedEmitter.fire(this.availableAgents);
             this.onAgentChangedEmitter.fire(this.selectedAgent);
 
@@ -85,20 +127,55 @@ export class AgentManager {
             }
         }
 
+        if (agent.endpoint && agent.endpoint.models.length > 1) {
+            await this.selectModel(agent);
+        }
+
         this.selectedAgent = agent;
         this.onAgentChangedEmitter.fire(this.selectedAgent);
+        await this.workspaceState?.update(AgentManager.SELECTED_AGENT_KEY, {
+            name: agent.name,
+            model: agent.endpoint?.model
+        } as StoredAgentSelection);
         
         vscode.window.showInformationMessage(
-            `Switched to ${agent.displayName} (${agent.version})`
+            `Switched to ${agent.displayName} (${agent.endpoint?.model ?? agent.version})`
         );
         
         return true;
     }
 
+    /**
+     * Lets the user pick one of the models an HTTP agent's server offers.
+     * Dismissing the picker keeps the current model.
+     */
+    private async selectModel(agent: CLIAgentInfo): Promise<void> {
+        const endpoint = agent.endpoint!;
+        const selected = await vscode.window.showQuickPick(
+            endpoint.models.map(model => ({
+                label: model,
+                description: model === endpoint.model ? 'Current' : undefined
+            })),
+            {
+                title: `${agent.displayName} Model`,
+                placeHolder: `Select the model to use (current: ${endpoint.model})`
+            }
+        );
+
+        if (selected) {
+            endpoint.model = selected.label;
+            agent.version = selected.label;
+        }
+    }
+
     getSelectedAgent(): CLIAgentInfo | null {
         return this.selectedAgent;
     }
 
+    findAgent(name: string): CLIAgentInfo | undefined {
+        return this.availableAgents.find(agent => agent.name === name);
+    }
+
     getAvailableAgents(): CLIAgentInfo[] {
         return [...this.availableAgents];
     }
@@ -169,7 +246,10 @@ export class AgentManager {
         return selected?.agent;
     }
 
-    private getAgentDescription(agent: CLIAgentInfo): string {
+    getAgentDescription(agent: CLIAgentInfo): string {
+        if (agent.endpoint) {
+            return agent.isAvailable ? `${agent.endpoint.model} - Ready` : 'Not reachable';
+        }
         if (!agent.isAvailable) {
             return 'Not installed';
         }
@@ -184,8 +264,11 @@ export class AgentManager {
         const status = agent.isAvailable ? 
             (agent.isAuthenticated ? 'authenticated' : 'needs authentication') : 
             'not installed';
+        const source = agent.endpoint
+            ? ` - ${agent.endpoint.api === 'ollama' ? 'Ollama' : 'OpenAI-compatible'} endpoint ${agent.endpoint.baseUrl}`
+            : agent.args ? ` - from settings (${agent.command})` : '';
         
-        return `${features} features supported - ${status}`;
+        return `${features} features supported - ${status}${source}`;
     }
 
     async showInstallationGuide(): Promise<void> {
@@ -220,15 +303,29 @@ export class AgentManager {
             
             if (agent.name === 'claude-code') {
                 guide += `To install Claude Code CLI:\n\n`;
-                guide += `1. Visit: https://claude.ai/code\n`;
-                guide += `2. Follow the installation instructions for your platform\n`;
-                guide += `3. Run \`claude auth login\` to authenticate\n\n`;
+                guide += `1. Run: \`npm install -g @anthropic-ai/claude-code\`\n`;
+                guide += `2. Run \`claude\` once and use \`/login\` to sign in, or set \`ANTHROPIC_API_KEY\`\n`;
+                guide += `3. More options: https://docs.anthropic.com/en/docs/claude-code\n\n`;
             } else if (agent.name === 'gemini-cli') {
-                guide += `To install Gemini CLI (Google Cloud SDK):\n\n`;
-                guide += `1. Visit: https://cloud.google.com/sdk/docs/install\n`;
-                guide += `2. Install the Google Cloud SDK\n`;
-                guide += `3. Run \`gcloud auth login\` to authenticate\n`;
-                guide += `4. Enable the AI Platform: \`gcloud services enable aiplatform.googleapis.com\`\n\n`;
+                guide += `To install Gemini CLI:\n\n`;
+                guide += `1. Run: \`npm install -g @google/gemini-cli\`\n`;
+                guide += `2. Run \`gemini\` once and sign in with your Google account, or set \`GEMINI_API_KEY\`\n\n`;
+            } else if (agent.name === 'gemini-vertex') {
+                guide += `Gemini CLI on Vertex AI uses the same CLI with Google Cloud credentials:\n\n`;
+                guide += `1. Run: \`npm install -g @google/gemini-cli\`\n`;
+                guide += `2. Install the Google Cloud SDK: https://cloud.google.com/sdk/docs/install\n`;
+                guide += `3. Run \`gcloud auth application-default login\`\n`;
+                guide += `4. Enable Vertex AI: \`gcloud services enable aiplatform.googleapis.com\`\n\n`;
+            } else if (agent.endpoint) {
+                guide += `This agent is a model server declared in the \`codespec.agents.http\` setting.\n\n`;
+                guide += `1. Start the server, e.g. \`ollama serve\` or \`llama-server -m <model.gguf>\`\n`;
+                guide += `2. Make sure it answers at \`${agent.endpoint.baseUrl}\`\n`;
+                guide += `3. Load or pull at least one model, or set \`model\` in the setting\n\n`;
+            } else {
+                guide += `This agent is declared in the \`codespec.agents.custom\` setting.\n\n`;
+                guide += `1. Install the CLI that provides \`${agent.command}\`\n`;
+                guide += `2. Make sure \`${agent.command}\` is on your PATH\n`;
+                guide += `3. Check the command and version flag in the setting\n\n`;
             }
         }
 
@@ -239,6 +336,7 @@ export class AgentManager {
     }
 
     dispose(): void {
+        this.configListener.dispose();
         this.onAgentChangedEmitter.dispose();
         this.onAgentsRefreshedEmitter.dispose();
     }
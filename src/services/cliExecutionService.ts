@@ -1,19 +1,31 @@
 import * as vscode from 'vscode';
 import * as cp from 'child_process';
-import { CLIExecutionResult, CLIAgentInfo } from '../models/cliAgent';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CLIExecutionResult, CLIAgentInfo, CLIInvocation, AgentInvocation, isHttpInvocation } from '../models/cliAgent';
+import { HttpAgentClient } from '../utils/httpAgentClient';
+import { AgentOutputParser } from '../utils/agentOutputParser';
+import { CommandLine } from '../utils/commandLine';
 
 export class CLIExecutionService {
     private static readonly DEFAULT_TIMEOUT = 120000; // 2 minutes
     private activeProcesses: Map<string, cp.ChildProcess> = new Map();
+    // Prompt files read by terminal commands, which may still be running
+    private terminalPromptFiles: string[] = [];
+    private outputParser = new AgentOutputParser();
+    private httpClient = new HttpAgentClient();
 
     async executeCommand(
-        command: string,
+        invocation: AgentInvocation,
         options: {
             cwd?: string;
             timeout?: number;
             agent?: CLIAgentInfo;
             showProgress?: boolean;
             cancellationToken?: vscode.CancellationToken;
+            /** Receives output as it arrives, decoded to readable text for structured formats */
+            onOutput?: (chunk: string) => void;
         } = {}
     ): Promise<CLIExecutionResult> {
         const {
@@ -25,31 +37,41 @@ export class CLIExecutionService {
         } = options;
 
         const processId = this.generateProcessId();
-        
+        const decode = this.outputParser.createStreamDecoder(isHttpInvocation(invocation) ? 'text' : invocation.outputFormat);
+        const onOutput = options.onOutput && ((chunk: string) => {
+            const text = decode(chunk);
+            if (text.length > 0) {
+                options.onOutput!(text);
+            }
+        });
+
         if (showProgress) {
-            return this.executeWithProgress(command, processId, {
+            return this.executeWithProgress(invocation, processId, {
                 cwd,
                 timeout,
                 agent,
-                cancellationToken
+                cancellationToken,
+                onOutput
             });
         } else {
-            return this.executeDirectly(command, processId, {
+            return this.executeDirectly(invocation, processId, {
                 cwd,
                 timeout,
-                cancellationToken
+                cancellationToken,
+                onOutput
             });
         }
     }
 
     private async executeWithProgress(
-        command: string,
+        invocation: AgentInvocation,
         processId: string,
         options: {
             cwd?: string;
             timeout: number;
             agent?: CLIAgentInfo;
             cancellationToken?: vscode.CancellationToken;
+            onOutput?: (chunk: string) => void;
         }
     ): Promise<CLIExecutionResult> {
         return vscode.window.withProgress(
@@ -67,11 +89,19 @@ export class CLIExecutionService {
 
                 try {
                     progress.report({ message: 'Initializing...' });
-                    
-                    const result = await this.executeDirectly(command, processId, {
+
+                    let bytes = 0;
+                    let lines = 0;
+                    const result = await this.executeDirectly(invocation, processId, {
                         cwd: options.cwd,
                         timeout: options.timeout,
-                        cancellationToken: combinedToken
+                        cancellationToken: combinedToken,
+                        onOutput: chunk => {
+                            bytes += Buffer.byteLength(chunk, 'utf8');
+                            lines += chunk.split('\n').length - 1;
+                            progress.report({ message: `Receiving output... ${this.describeReceived(lines, bytes)}` });
+                            options.onOutput?.(chunk);
+                        }
                     });
 
                     if (result.success) {
@@ -87,7 +117,8 @@ export class CLIExecutionService {
                             success: false,
                             output: '',
                             error: 'Operation was cancelled by user',
-                            exitCode: -1
+                            exitCode: -1,
+                            cancelled: true
                         };
                     }
                     throw error;
@@ -97,12 +128,65 @@ export class CLIExecutionService {
     }
 
     private async executeDirectly(
-        command: string,
+        invocation: AgentInvocation,
+        processId: string,
+        options: {
+            cwd?: string;
+            timeout: number;
+            cancellationToken?: vscode.CancellationToken;
+            onOutput?: (chunk: string) => void;
+        }
+    ): Promise<CLIExecutionResult> {
+        if (isHttpInvocation(invocation)) {
+            return this.httpClient.send(invocation, options);
+        }
+
+        if (invocation.promptFile) {
+            // Prompts carry project source and sit in the shared temp directory
+            await fs.promises.writeFile(invocation.promptFile.path, invocation.promptFile.content, { encoding: 'utf8', mode: 0o600 });
+        }
+
+        try {
+            const result = await this.spawnProcess(invocation, processId, options);
+            return this.applyOutputFormat(invocation, result);
+        } finally {
+            if (invocation.promptFile) {
+                await fs.promises.unlink(invocation.promptFile.path).catch(() => undefined);
+            }
+        }
+    }
+
+    /**
+     * Replaces structured output with the agent's final answer and attaches
+     * the session, usage and tool details that came with it.
+     */
+    private applyOutputFormat(invocation: CLIInvocation, result: CLIExecutionResult): CLIExecutionResult {
+        const parsed = this.outputParser.parse(result.output, invocation.outputFormat);
+        if (!parsed.structured) {
+            return result;
+        }
+
+        const failed = parsed.isError === true && !result.cancelled;
+        return {
+            ...result,
+            success: result.success && !failed,
+            output: parsed.text,
+            error: failed ? parsed.text || result.error || 'The agent reported an error' : result.error,
+            rawOutput: result.output,
+            sessionId: parsed.sessionId,
+            usage: parsed.usage,
+            toolEvents: parsed.toolEvents
+        };
+    }
+
+    private spawnProcess(
+        invocation: CLIInvocation,
         processId: string,
         options: {
             cwd?: string;
             timeout: number;
             cancellationToken?: vscode.CancellationToken;
+            onOutput?: (chunk: string) => void;
         }
     ): Promise<CLIExecutionResult> {
         return new Promise((resolve) => {
@@ -110,13 +194,22 @@ export class CLIExecutionService {
             let stderr = '';
             let isResolved = false;
 
-            const process = cp.spawn(command, [], {
+            // No shell: arguments reach the CLI exactly as built
+            const target = CommandLine.toSpawnTarget(invocation.executable, invocation.args);
+            const child = cp.spawn(target.file, target.args, {
                 cwd: options.cwd,
-                shell: true,
-                stdio: ['inherit', 'pipe', 'pipe']
+                env: invocation.env ? { ...process.env, ...invocation.env } : process.env,
+                stdio: [invocation.stdin !== undefined ? 'pipe' : 'inherit', 'pipe', 'pipe'],
+                windowsVerbatimArguments: target.verbatim
             });
 
-            this.activeProcesses.set(processId, process);
+            this.activeProcesses.set(processId, child);
+
+            if (invocation.stdin !== undefined) {
+                // The CLI may exit before reading all of stdin; its exit code reports that
+                child.stdin?.on('error', error => console.warn('Failed to write to stdin:', error));
+                child.stdin?.end(invocation.stdin);
+            }
 
             // Handle cancellation
             const cancellationHandler = () => {
@@ -127,7 +220,8 @@ export class CLIExecutionService {
                         success: false,
                         output: stdout,
                         error: 'Operation was cancelled',
-                        exitCode: -1
+                        exitCode: -1,
+                        cancelled: true
                     });
                 }
             };
@@ -150,18 +244,22 @@ export class CLIExecutionService {
                 }
             }, options.timeout);
 
-            // Collect stdout
-            process.stdout?.on('data', (data) => {
-                stdout += data.toString();
+            // Collect stdout; decoding as a stream keeps multi-byte characters whole across chunks
+            child.stdout?.setEncoding('utf8');
+            child.stdout?.on('data', (chunk: string) => {
+                stdout += chunk;
+                if (!isResolved) {
+                    options.onOutput?.(chunk);
+                }
             });
 
             // Collect stderr
-            process.stderr?.on('data', (data) => {
+            child.stderr?.on('data', (data) => {
                 stderr += data.toString();
             });
 
             // Handle process completion
-            process.on('close', (code) => {
+            child.on('close', (code) => {
                 clearTimeout(timeoutId);
                 this.activeProcesses.delete(processId);
                 
@@ -185,7 +283,7 @@ export class CLIExecutionService {
             });
 
             // Handle process errors
-            process.on('error', (error) => {
+            child.on('error', (error) => {
                 clearTimeout(timeoutId);
                 this.activeProcesses.delete(processId);
                 
@@ -203,7 +301,7 @@ export class CLIExecutionService {
     }
 
     async executeCommandInTerminal(
-        command: string,
+        invocation: AgentInvocation,
         options: {
             terminalName?: string;
             showTerminal?: boolean;
@@ -216,13 +314,18 @@ export class CLIExecutionService {
             cwd = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath
         } = options;
 
-        // Create or reuse terminal
-        let terminal = vscode.window.terminals.find(t => t.name === terminalName);
+        if (isHttpInvocation(invocation)) {
+            throw new Error('HTTP agents cannot run in a terminal');
+        }
+
+        // Create or reuse terminal; an existing one may lack the environment the agent needs
+        let terminal = invocation.env ? undefined : vscode.window.terminals.find(t => t.name === terminalName);
         
         if (!terminal) {
             terminal = vscode.window.createTerminal({
                 name: terminalName,
-                cwd: cwd
+                cwd: cwd,
+                env: invocation.env
             });
         }
 
@@ -230,8 +333,20 @@ export class CLIExecutionService {
             terminal.show();
         }
 
+        // The terminal cannot take piped input, so stdin is redirected from a file
+        let stdinPath: string | undefined;
+        if (invocation.stdin !== undefined) {
+            stdinPath = path.join(os.tmpdir(), `codespec-prompt-${this.generateProcessId()}.md`);
+            await fs.promises.writeFile(stdinPath, invocation.stdin, { encoding: 'utf8', mode: 0o600 });
+            this.terminalPromptFiles.push(stdinPath);
+        }
+        if (invocation.promptFile) {
+            await fs.promises.writeFile(invocation.promptFile.path, invocation.promptFile.content, { encoding: 'utf8', mode: 0o600 });
+            this.terminalPromptFiles.push(invocation.promptFile.path);
+        }
+
         // Execute command
-        terminal.sendText(command);
+        terminal.sendText(CommandLine.format(invocation, stdinPath));
 
         return terminal;
     }
@@ -279,6 +394,11 @@ export class CLIExecutionService {
         return 'Executing CLI Command...';
     }
 
+    private describeReceived(lines: number, bytes: number): string {
+        const size = bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+        return `${lines} ${lines === 1 ? 'line' : 'lines'} (${size})`;
+    }
+
     private createCombinedCancellationToken(
         token1: vscode.CancellationToken,
         token2?: vscode.CancellationToken
@@ -310,7 +430,9 @@ export class CLIExecutionService {
             /invalid credentials/i,
             /access denied/i,
             /permission denied/i,
-            /no credentialed accounts/i
+            /no credentialed accounts/i,
+            /invalid api key/i,
+            /please run \/login/i
         ];
 
         const output = (stderr + stdout).toLowerCase();
@@ -321,11 +443,15 @@ export class CLIExecutionService {
         const output = stderr + stdout;
         
         if (output.includes('claude') || output.includes('Claude')) {
-            return 'Claude Code authentication required. Please run: claude auth login';
+            return 'Claude Code authentication required. Please run `claude` and use /login, or set ANTHROPIC_API_KEY';
         }
         
+        if (output.includes('GEMINI_API_KEY') || output.toLowerCase().includes('gemini')) {
+            return 'Gemini CLI authentication required. Please run `gemini` once to sign in, or set GEMINI_API_KEY';
+        }
+
         if (output.includes('gcloud') || output.includes('google')) {
-            return 'Google Cloud authentication required. Please run: gcloud auth login';
+            return 'Google Cloud authentication required. Please run: gcloud auth application-default login';
         }
         
         return 'Authentication required. Please authenticate with the CLI tool and try again.';
@@ -336,9 +462,16 @@ export class CLIExecutionService {
         isAuthenticated: boolean;
         message: string;
     }> {
+        if (agent.endpoint) {
+            return this.testEndpointConnection(agent);
+        }
+
         try {
             // Test basic availability
-            const versionResult = await this.executeCommand(`${agent.command} --version`, {
+            const versionResult = await this.executeCommand({
+                executable: agent.command,
+                args: CommandLine.split(agent.versionFlag ?? '--version')
+            }, {
                 timeout: 5000,
                 showProgress: false
             });
@@ -353,44 +486,48 @@ export class CLIExecutionService {
 
             // Test authentication if auth command is available
             if (agent.name === 'claude-code') {
-                const authResult = await this.executeCommand('claude auth status', {
-                    timeout: 5000,
-                    showProgress: false
-                });
-
-                const isAuthenticated = authResult.success && 
-                    !authResult.output.toLowerCase().includes('not authenticated');
-
+                // Claude Code has no auth status command; detection looked for its credentials
                 return {
                     isAvailable: true,
-                    isAuthenticated,
-                    message: isAuthenticated 
+                    isAuthenticated: agent.isAuthenticated,
+                    message: agent.isAuthenticated
                         ? `${agent.displayName} is ready to use`
-                        : `${agent.displayName} requires authentication. Run: claude auth login`
+                        : `${agent.displayName} requires authentication. Run \`claude\` and use /login, or set ANTHROPIC_API_KEY`
                 };
             } else if (agent.name === 'gemini-cli') {
-                const authResult = await this.executeCommand('gcloud auth list', {
+                // The gemini CLI has no auth status command; detection looked for its credentials
+                return {
+                    isAvailable: true,
+                    isAuthenticated: agent.isAuthenticated,
+                    message: agent.isAuthenticated
+                        ? `${agent.displayName} is ready to use`
+                        : `${agent.displayName} requires authentication. Run \`gemini\` once to sign in, or set GEMINI_API_KEY`
+                };
+            } else if (agent.name === 'gemini-vertex') {
+                const authResult = await this.executeCommand({
+                    executable: 'gcloud',
+                    args: ['auth', 'application-default', 'print-access-token']
+                }, {
                     timeout: 5000,
                     showProgress: false
                 });
 
-                const isAuthenticated = authResult.success && 
-                    authResult.output.includes('@') && 
-                    !authResult.output.toLowerCase().includes('no credentialed');
-
                 return {
                     isAvailable: true,
-                    isAuthenticated,
-                    message: isAuthenticated 
+                    isAuthenticated: authResult.success,
+                    message: authResult.success
                         ? `${agent.displayName} is ready to use`
-                        : `${agent.displayName} requires authentication. Run: gcloud auth login`
+                        : `${agent.displayName} requires authentication. Run: gcloud auth application-default login`
                 };
             }
 
+            // Detection already ran the auth check of agents declared in settings
             return {
                 isAvailable: true,
-                isAuthenticated: true,
-                message: `${agent.displayName} is available`
+                isAuthenticated: agent.isAuthenticated,
+                message: agent.isAuthenticated
+                    ? `${agent.displayName} is available`
+                    : `${agent.displayName} failed its authentication check. Sign in with the CLI, then refresh agents`
             };
 
         } catch (error) {
@@ -402,7 +539,42 @@ export class CLIExecutionService {
         }
     }
 
+    // HTTP agents have nothing to spawn; listing the server's models shows it is up and accepts the key
+    private async testEndpointConnection(agent: CLIAgentInfo): Promise<{
+        isAvailable: boolean;
+        isAuthenticated: boolean;
+        message: string;
+    }> {
+        const endpoint = agent.endpoint!;
+        try {
+            const models = await this.httpClient.listModels(endpoint);
+            const hasModel = models.length === 0 || models.includes(endpoint.model);
+
+            return {
+                isAvailable: true,
+                isAuthenticated: true,
+                message: hasModel
+                    ? `${agent.displayName} is ready to use (${endpoint.model})`
+                    : `${agent.displayName} is reachable, but the server does not list the model ${endpoint.model}`
+            };
+        } catch (error) {
+            return {
+                isAvailable: false,
+                isAuthenticated: false,
+                message: `${agent.displayName} is not reachable at ${endpoint.baseUrl}: ${error}`
+            };
+        }
+    }
+
     dispose(): void {
         this.killAllProcesses();
+        for (const promptFile of this.terminalPromptFiles) {
+            try {
+                fs.unlinkSync(promptFile);
+            } catch {
+                // Already removed
+            }
+        }
+        this.terminalPromptFiles = [];
     }
 }
\ No newline at end of file
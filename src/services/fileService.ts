@@ -1,15 +1,32 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
+import {
+    ImplementationPlan,
+    ParsedFeatureSpec,
+    PlanTaskGroup,
+    Questionnaire,
+    FeatureSpecFile,
+    GeneratedArtifact,
+    GeneratedArtifactType,
+    GENERATED_ARTIFACT_TYPES
+} from '../models/featureSpec';
+import { SpecParser, SPEC_SECTIONS } from '../utils/specParser';
+import { QuestionnaireParser } from '../utils/questionnaireParser';
+import { PlanParser } from '../utils/planParser';
 
 export class FileService {
-    private readonly featuresDirectoryName = '.features';
+    private static readonly DEFAULT_FEATURES_DIRECTORY = '.features';
+    private readonly archiveDirectoryName = 'archive';
+    private readonly templatesDirectoryName = 'templates';
+    private readonly specParser = new SpecParser();
+    private readonly questionnaireParser = new QuestionnaireParser();
+    private readonly planParser = new PlanParser();
 
     constructor() {}
 
-    async ensureFeaturesDirectory(): Promise<void> {
-        const workspaceRoot = this.getWorkspaceRoot();
-        const featuresPath = this.getFeaturesPath();
+    async ensureFeaturesDirectory(folder?: vscode.WorkspaceFolder): Promise<void> {
+        const featuresPath = this.getFeaturesPath(folder);
 
         try {
             await fs.promises.access(featuresPath);
@@ -18,12 +35,12 @@ export class FileService {
             try {
                 await fs.promises.mkdir(featuresPath, { recursive: true });
             } catch (error) {
-                throw new Error(`Failed to create .features directory: ${error}`);
+                throw new Error(`Failed to create ${this.getFeaturesDirectoryName(folder)} directory: ${error}`);
             }
         }
     }
 
-    async createFeatureFile(name: string, content: string): Promise<string> {
+    async createFeatureFile(name: string, content: string, directory?: string): Promise<string> {
         const validation = this.validateFileName(name);
         if (!validation.valid) {
             throw new Error(validation.error);
@@ -31,13 +48,13 @@ export class FileService {
 
         const sanitizedName = validation.sanitized;
         const fileName = `${sanitizedName}.md`;
-        const featuresPath = this.getFeaturesPath();
-        const filePath = path.join(featuresPath, fileName);
+        const targetPath = directory || this.getFeaturesPath();
+        const filePath = path.join(targetPath, fileName);
 
         // Check if file already exists
-        if (await this.featureExists(sanitizedName)) {
-            const uniqueName = await this.generateUniqueFileName(sanitizedName);
-            const uniqueFilePath = path.join(featuresPath, `${uniqueName}.md`);
+        if (await this.featureExists(sanitizedName, targetPath)) {
+            const uniqueName = await this.generateUniqueFileName(sanitizedName, targetPath);
+            const uniqueFilePath = path.join(targetPath, `${uniqueName}.md`);
             
             try {
                 await fs.promises.writeFile(uniqueFilePath, content, 'utf8');
@@ -55,6 +72,129 @@ export class FileService {
         }
     }
 
+    async createEpic(name: string, parentDirectory?: string): Promise<string> {
+        const validation = this.validateFileName(name);
+        if (!validation.valid) {
+            throw new Error(validation.error);
+        }
+
+        const featuresPath = parentDirectory
+            ? this.getFeaturesPath(this.getWorkspaceFolder(parentDirectory))
+            : this.getFeaturesPath();
+        if ((parentDirectory || featuresPath) === featuresPath) {
+            if (validation.sanitized === this.archiveDirectoryName) {
+                throw new Error(`"${this.archiveDirectoryName}" is reserved for archived specs`);
+            }
+            if (validation.sanitized === this.templatesDirectoryName) {
+                throw new Error(`"${this.templatesDirectoryName}" is reserved for spec templates`);
+            }
+        }
+
+        const epicPath = path.join(parentDirectory || featuresPath, validation.sanitized);
+
+        if (await this.pathExists(epicPath)) {
+            throw new Error(`An epic named "${validation.sanitized}" already exists`);
+        }
+
+        try {
+            await fs.promises.mkdir(epicPath, { recursive: true });
+            return epicPath;
+        } catch (error) {
+            throw new Error(`Failed to create epic: ${error}`);
+        }
+    }
+
+    /**
+     * Moves a spec and its generated artifacts into another directory of the
+     * features tree. Returns the new spec path.
+     */
+    async moveFeatureFile(specPath: string, targetDirectory: string): Promise<string> {
+        if (path.dirname(specPath) === targetDirectory) {
+            return specPath;
+        }
+
+        const artifacts = await this.listGeneratedArtifacts(specPath);
+        const moves = [specPath, ...artifacts.map(artifact => artifact.path)]
+            .map(source => ({ source, target: path.join(targetDirectory, path.basename(source)) }));
+
+        for (const { target } of moves) {
+            if (await this.pathExists(target)) {
+                throw new Error(`"${path.basename(target)}" already exists in the target folder`);
+            }
+        }
+
+        try {
+            for (const { source, target } of moves) {
+                await fs.promises.rename(source, target);
+            }
+        } catch (error) {
+            throw new Error(`Failed to move feature file: ${error}`);
+        }
+
+        return path.join(targetDirectory, path.basename(specPath));
+    }
+
+    /**
+     * Renames a spec and its generated `-questions` / `-plan` siblings.
+     * Returns the new spec path.
+     */
+    async renameFeatureFile(specPath: string, newName: string): Promise<string> {
+        const validation = this.validateFileName(newName);
+        if (!validation.valid) {
+            throw new Error(validation.error);
+        }
+
+        const directory = path.dirname(specPath);
+        const newSpecPath = path.join(directory, `${validation.sanitized}.md`);
+        if (newSpecPath === specPath) {
+            return specPath;
+        }
+
+        const artifacts = await this.listGeneratedArtifacts(specPath);
+        const moves = [
+            { source: specPath, target: newSpecPath },
+            ...artifacts.map(artifact => ({
+                source: artifact.path,
+                target: this.getArtifactPath(newSpecPath, artifact.type)
+            }))
+        ];
+
+        for (const { target } of moves) {
+            if (await this.pathExists(target)) {
+                throw new Error(`"${path.basename(target)}" already exists`);
+            }
+        }
+
+        try {
+            for (const { source, target } of moves) {
+                await fs.promises.rename(source, target);
+            }
+        } catch (error) {
+            throw new Error(`Failed to rename feature file: ${error}`);
+        }
+
+        return newSpecPath;
+    }
+
+    /**
+     * Moves a spec and its artifacts under archive/, keeping the epic path so
+     * same-named specs from different epics do not collide.
+     */
+    async archiveFeatureFile(specPath: string): Promise<string> {
+        const folder = this.getWorkspaceFolder(specPath);
+        const epicPath = path.relative(this.getFeaturesPath(folder), path.dirname(specPath));
+        const isInsideFeatures = !epicPath.startsWith('..') && !path.isAbsolute(epicPath);
+        const archivePath = path.join(this.getArchivePath(folder), isInsideFeatures ? epicPath : '');
+
+        try {
+            await fs.promises.mkdir(archivePath, { recursive: true });
+        } catch (error) {
+            throw new Error(`Failed to create archive directory: ${error}`);
+        }
+
+        return this.moveFeatureFile(specPath, archivePath);
+    }
+
     async readFeatureFile(filePath: string): Promise<string> {
         try {
             return await fs.promises.readFile(filePath, 'utf8');
@@ -71,8 +211,79 @@ export class FileService {
         }
     }
 
-    async listFeatureFiles(): Promise<string[]> {
-        const featuresPath = this.getFeaturesPath();
+    async readFeatureSpec(filePath: string): Promise<ParsedFeatureSpec> {
+        const content = await this.readFeatureFile(filePath);
+        return this.specParser.parse(content);
+    }
+
+    async writeFeatureSpec(filePath: string, spec: ParsedFeatureSpec): Promise<void> {
+        await this.updateFeatureFile(filePath, this.serializeFeatureSpec(spec));
+    }
+
+    serializeFeatureSpec(spec: ParsedFeatureSpec): string {
+        return this.specParser.serialize(spec);
+    }
+
+    /**
+     * Writes generated questions or a plan into the spec's own section instead
+     * of a sibling file, and stamps the matching Metadata timestamp.
+     */
+    async writeGeneratedSection(
+        specPath: string,
+        type: GeneratedArtifactType,
+        output: string,
+        agentName: string
+    ): Promise<void> {
+        const spec = await this.readFeatureSpec(specPath);
+        const now = new Date();
+        const today = now.toISOString().split('T')[0];
+
+        const heading = type === 'questions' ? SPEC_SECTIONS.CLARIFYING_QUESTIONS : SPEC_SECTIONS.IMPLEMENTATION_PLAN;
+        this.specParser.setSectionContent(spec, heading, this.specParser.demoteHeadings(output.trim()), SPEC_SECTIONS.METADATA);
+
+        if (type === 'questions') {
+            spec.metadata.questionsGenerated = now.toISOString();
+        } else {
+            spec.metadata.planGenerated = now.toISOString();
+        }
+        spec.metadata.cliAgentUsed = agentName;
+        spec.metadata.lastUpdated = today;
+        spec.data.lastUpdated = today;
+
+        await this.writeFeatureSpec(specPath, spec);
+    }
+
+    /**
+     * Lists every spec in the given workspace folder, or across all workspace
+     * folders when none is given.
+     */
+    async listFeatureFiles(folder?: vscode.WorkspaceFolder): Promise<string[]> {
+        const folders = folder ? [folder] : this.getWorkspaceFolders();
+        const featureFiles: string[] = [];
+
+        const collect = (nodes: FeatureSpecFile[]) => {
+            for (const node of nodes) {
+                if (node.type === 'feature') {
+                    featureFiles.push(node.path);
+                } else {
+                    collect(node.children || []);
+                }
+            }
+        };
+
+        for (const workspaceFolder of folders) {
+            collect(await this.listFeatureTree(workspaceFolder));
+        }
+
+        return featureFiles.sort();
+    }
+
+    /**
+     * Lists a folder's features directory recursively. Subdirectories are
+     * epics and come back as `directory` nodes with their own children.
+     */
+    async listFeatureTree(folder?: vscode.WorkspaceFolder): Promise<FeatureSpecFile[]> {
+        const featuresPath = this.getFeaturesPath(folder);
         
         try {
             await fs.promises.access(featuresPath);
@@ -82,19 +293,243 @@ export class FileService {
         }
 
         try {
-            const files = await fs.promises.readdir(featuresPath, { withFileTypes: true });
-            const featureFiles: string[] = [];
+            const reserved = new Set([this.getArchivePath(folder), this.getTemplatesPath(folder)]);
+            return await this.readFeatureDirectory(featuresPath, reserved);
+        } catch (error) {
+            throw new Error(`Failed to list feature files: ${error}`);
+        }
+    }
 
-            for (const file of files) {
-                if (file.isFile() && file.name.endsWith('.md')) {
-                    featureFiles.push(path.join(featuresPath, file.name));
+    async listEpics(folder?: vscode.WorkspaceFolder): Promise<FeatureSpecFile[]> {
+        const folders = folder ? [folder] : this.getWorkspaceFolders();
+        const epics: FeatureSpecFile[] = [];
+
+        const collect = (nodes: FeatureSpecFile[]) => {
+            for (const node of nodes) {
+                if (node.type === 'directory') {
+                    epics.push(node);
+                    collect(node.children || []);
                 }
             }
+        };
 
-            return featureFiles.sort();
-        } catch (error) {
-            throw new Error(`Failed to list feature files: ${error}`);
+        for (const workspaceFolder of folders) {
+            collect(await this.listFeatureTree(workspaceFolder));
         }
+
+        return epics;
+    }
+
+    private async readFeatureDirectory(dirPath: string, reserved: Set<string>): Promise<FeatureSpecFile[]> {
+        const entries = await fs.promises.readdir(dirPath, { withFileTypes: true });
+        const markdownNames = new Set(
+            entries.filter(entry => entry.isFile() && entry.name.endsWith('.md')).map(entry => entry.name)
+        );
+        const nodes: FeatureSpecFile[] = [];
+
+        for (const entry of entries) {
+            const entryPath = path.join(dirPath, entry.name);
+
+            if (entry.isDirectory() && !entry.name.startsWith('.') && !reserved.has(entryPath)) {
+                nodes.push({
+                    name: entry.name,
+                    path: entryPath,
+                    type: 'directory',
+                    children: await this.readFeatureDirectory(entryPath, reserved)
+                });
+            } else if (markdownNames.has(entry.name) && !this.getArtifactOwnerName(entry.name, markdownNames)) {
+                // Generated questions/plans are listed through their owning spec
+                nodes.push({
+                    name: path.basename(entry.name, '.md'),
+                    path: entryPath,
+                    type: 'feature'
+                });
+            }
+        }
+
+        return nodes.sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    async listGeneratedArtifacts(specPath: string): Promise<GeneratedArtifact[]> {
+        const artifacts: GeneratedArtifact[] = [];
+
+        for (const type of GENERATED_ARTIFACT_TYPES) {
+            const artifactPath = this.getArtifactPath(specPath, type);
+            if (await this.pathExists(artifactPath)) {
+                artifacts.push({ type, path: artifactPath });
+            }
+        }
+
+        return artifacts;
+    }
+
+    /**
+     * Finds a spec's clarifying questions: the spec's own section when it holds
+     * numbered questions, otherwise the generated `-questions` file.
+     */
+    async loadQuestionnaire(specPath: string): Promise<Questionnaire | undefined> {
+        const spec = await this.readFeatureSpec(specPath);
+        const sectionContent = this.specParser.getSectionContent(spec, SPEC_SECTIONS.CLARIFYING_QUESTIONS) || '';
+        const sectionQuestions = this.questionnaireParser.parse(sectionContent);
+        if (sectionQuestions.length > 0) {
+            return { source: 'section', path: specPath, content: sectionContent, questions: sectionQuestions };
+        }
+
+        const artifactPath = this.getArtifactPath(specPath, 'questions');
+        if (!(await this.pathExists(artifactPath))) {
+            return undefined;
+        }
+
+        const content = await this.readFeatureFile(artifactPath);
+        const questions = this.questionnaireParser.parse(content);
+        return questions.length > 0 ? { source: 'artifact', path: artifactPath, content, questions } : undefined;
+    }
+
+    async saveQuestionnaireAnswers(questionnaire: Questionnaire, answers: Array<string | undefined>): Promise<void> {
+        const content = this.questionnaireParser.applyAnswers(questionnaire.content, answers);
+
+        if (questionnaire.source === 'artifact') {
+            await this.updateFeatureFile(questionnaire.path, content);
+            return;
+        }
+
+        // The section's instructional comments are kept by setSectionContent
+        const lines = content.split(/\r?\n/);
+        while (lines.length > 0 && (lines[0].trim() === '' || /^\s*<!--.*-->\s*$/.test(lines[0]))) {
+            lines.shift();
+        }
+
+        const spec = await this.readFeatureSpec(questionnaire.path);
+        this.specParser.setSectionContent(spec, SPEC_SECTIONS.CLARIFYING_QUESTIONS, lines.join('\n'), SPEC_SECTIONS.METADATA);
+        await this.writeFeatureSpec(questionnaire.path, spec);
+    }
+
+    /**
+     * Reads a spec's implementation plan as a task list, from the spec's own
+     * section when it holds tasks, otherwise from the generated `-plan` file.
+     */
+    async loadImplementationPlan(specPath: string): Promise<ImplementationPlan | undefined> {
+        const content = await this.readFeatureFile(specPath);
+        const range = this.specParser.getSectionLineRange(this.specParser.parse(content), SPEC_SECTIONS.IMPLEMENTATION_PLAN);
+        if (range) {
+            const groups = this.planParser.parse(content, range.start, range.end);
+            if (groups.length > 0) {
+                return this.createPlan('section', specPath, groups);
+            }
+        }
+
+        const artifactPath = this.getArtifactPath(specPath, 'plan');
+        if (!(await this.pathExists(artifactPath))) {
+            return undefined;
+        }
+
+        const groups = this.planParser.parse(await this.readFeatureFile(artifactPath));
+        return groups.length > 0 ? this.createPlan('artifact', artifactPath, groups) : undefined;
+    }
+
+    /**
+     * Returns the text of a spec's implementation plan, preferring the spec's
+     * own section over the generated `-plan` file.
+     */
+    async readImplementationPlanText(specPath: string): Promise<string | undefined> {
+        const spec = await this.readFeatureSpec(specPath);
+        const section = (this.specParser.getSectionContent(spec, SPEC_SECTIONS.IMPLEMENTATION_PLAN) || '')
+            .replace(/<!--[\s\S]*?-->/g, '')
+            .trim();
+        if (section.length > 0) {
+            return section;
+        }
+
+        const artifactPath = this.getArtifactPath(specPath, 'plan');
+        return await this.pathExists(artifactPath) ? this.readFeatureFile(artifactPath) : undefined;
+    }
+
+    /**
+     * Checks or unchecks plan tasks by id and writes the boxes back into
+     * whichever file holds the plan.
+     */
+    async setPlanTaskStates(specPath: string, states: Record<string, boolean>): Promise<void> {
+        const plan = await this.loadImplementationPlan(specPath);
+        if (!plan) {
+            throw new Error(`No implementation plan found for ${path.basename(specPath)}`);
+        }
+
+        let content = await this.readFeatureFile(plan.path);
+        for (const [taskId, done] of Object.entries(states)) {
+            const task = this.planParser.findTask(plan.groups, taskId);
+            if (!task) {
+                throw new Error(`Plan task not found: ${taskId}`);
+            }
+            content = this.planParser.setTaskState(content, task.line, done);
+        }
+        await this.updateFeatureFile(plan.path, content);
+    }
+
+    private createPlan(source: ImplementationPlan['source'], planPath: string, groups: PlanTaskGroup[]): ImplementationPlan {
+        const { total, completed } = this.planParser.countTasks(groups.flatMap(group => group.tasks));
+        return { source, path: planPath, groups, total, completed };
+    }
+
+    /**
+     * Returns the spec that owns a generated artifact, or undefined when
+     * `filePath` is not an artifact of an existing spec.
+     */
+    async getArtifactOwnerPath(filePath: string): Promise<string | undefined> {
+        const fileName = path.basename(filePath);
+        for (const type of GENERATED_ARTIFACT_TYPES) {
+            const suffix = `-${type}.md`;
+            const ownerPath = path.join(path.dirname(filePath), `${fileName.slice(0, -suffix.length)}.md`);
+            if (fileName.endsWith(suffix) && await this.pathExists(ownerPath)) {
+                return ownerPath;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Whether `filePath` is a spec in the features tree, as opposed to a
+     * generated artifact, a template or an archived spec.
+     */
+    async isFeatureSpecPath(filePath: string): Promise<boolean> {
+        if (path.extname(filePath) !== '.md' || this.getWorkspaceFolders().length === 0) {
+            return false;
+        }
+
+        const folder = this.getWorkspaceFolder(filePath);
+        const isInside = (directory: string) => {
+            const relative = path.relative(directory, filePath);
+            return relative.length > 0 && !relative.startsWith('..') && !path.isAbsolute(relative);
+        };
+        if (!isInside(this.getFeaturesPath(folder)) || isInside(this.getArchivePath(folder)) || isInside(this.getTemplatesPath(folder))) {
+            return false;
+        }
+
+        // Artifacts only count as such while their owning spec exists
+        return !(await this.getArtifactOwnerPath(filePath));
+    }
+
+    getArtifactPath(specPath: string, type: GeneratedArtifactType): string {
+        const dir = path.dirname(specPath);
+        const baseName = path.basename(specPath, path.extname(specPath));
+        return path.join(dir, `${baseName}-${type}.md`);
+    }
+
+    /**
+     * Returns the owning spec's file name when `fileName` is a generated
+     * artifact whose spec exists alongside it, so a feature that merely ends
+     * in "-plan" is still listed as a spec.
+     */
+    private getArtifactOwnerName(fileName: string, siblings: Set<string>): string | undefined {
+        for (const type of GENERATED_ARTIFACT_TYPES) {
+            const suffix = `-${type}.md`;
+            if (fileName.endsWith(suffix)) {
+                const ownerName = `${fileName.slice(0, -suffix.length)}.md`;
+                if (siblings.has(ownerName)) {
+                    return ownerName;
+                }
+            }
+        }
+        return undefined;
     }
 
     async deleteFeatureFile(filePath: string): Promise<void> {
@@ -105,11 +540,20 @@ export class FileService {
         }
     }
 
-    async featureExists(name: string): Promise<boolean> {
+    async deleteFeatureWithArtifacts(specPath: string): Promise<void> {
+        const artifacts = await this.listGeneratedArtifacts(specPath);
+
+        for (const artifact of artifacts) {
+            await this.deleteFeatureFile(artifact.path);
+        }
+        await this.deleteFeatureFile(specPath);
+    }
+
+    async featureExists(name: string, directory?: string): Promise<boolean> {
         const validation = this.validateFileName(name);
         const sanitizedName = validation.sanitized;
         const fileName = `${sanitizedName}.md`;
-        const featuresPath = this.getFeaturesPath();
+        const featuresPath = directory || this.getFeaturesPath();
         const filePath = path.join(featuresPath, fileName);
 
         try {
@@ -172,26 +616,66 @@ export class FileService {
         };
     }
 
-    private getWorkspaceRoot(): string {
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (!workspaceFolders || workspaceFolders.length === 0) {
+    getWorkspaceFolders(): readonly vscode.WorkspaceFolder[] {
+        return vscode.workspace.workspaceFolders || [];
+    }
+
+    /**
+     * Returns the workspace folder that owns `filePath`, falling back to the
+     * first workspace folder when no path is given or it lies outside them.
+     */
+    getWorkspaceFolder(filePath?: string): vscode.WorkspaceFolder {
+        const workspaceFolders = this.getWorkspaceFolders();
+        if (workspaceFolders.length === 0) {
             throw new Error('No workspace is currently open');
         }
 
-        // Use the first workspace folder
-        return workspaceFolders[0].uri.fsPath;
+        if (filePath) {
+            const owner = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
+            if (owner) {
+                return owner;
+            }
+        }
+
+        return workspaceFolders[0];
     }
 
-    private getFeaturesPath(): string {
-        const workspaceRoot = this.getWorkspaceRoot();
-        return path.join(workspaceRoot, this.featuresDirectoryName);
+    getFeaturesDirectoryName(folder?: vscode.WorkspaceFolder): string {
+        const configured = vscode.workspace
+            .getConfiguration('codespec', (folder || this.getWorkspaceFolder()).uri)
+            .get<string>('featuresDirectory', FileService.DEFAULT_FEATURES_DIRECTORY)
+            .trim();
+
+        return configured.length > 0 ? configured : FileService.DEFAULT_FEATURES_DIRECTORY;
+    }
+
+    getFeaturesPath(folder?: vscode.WorkspaceFolder): string {
+        const workspaceFolder = folder || this.getWorkspaceFolder();
+        return path.resolve(workspaceFolder.uri.fsPath, this.getFeaturesDirectoryName(workspaceFolder));
+    }
+
+    getArchivePath(folder?: vscode.WorkspaceFolder): string {
+        return path.join(this.getFeaturesPath(folder), this.archiveDirectoryName);
+    }
+
+    getTemplatesPath(folder?: vscode.WorkspaceFolder): string {
+        return path.join(this.getFeaturesPath(folder), this.templatesDirectoryName);
+    }
+
+    private async pathExists(targetPath: string): Promise<boolean> {
+        try {
+            await fs.promises.access(targetPath);
+            return true;
+        } catch {
+            return false;
+        }
     }
 
-    private async generateUniqueFileName(baseName: string): Promise<string> {
+    private async generateUniqueFileName(baseName: string, directory?: string): Promise<string> {
         let counter = 1;
         let uniqueName = baseName;
 
-        while (await this.featureExists(uniqueName)) {
+        while (await this.featureExists(uniqueName, directory)) {
             uniqueName = `${baseName}-${counter}`;
             counter++;
         }
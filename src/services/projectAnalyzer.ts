@@ -369,7 +369,7 @@ export class ProjectAnalyzer {
 
     async analyzeImportantFiles(files: string[]): Promise<FileAnalysis[]> {
         const analyses: FileAnalysis[] = [];
-        const maxFileSize = 10 * 1024; // 10KB limit per file
+        const maxFileSize = 100 * 1024; // 100KB limit per file
         
         for (const filePath of files) {
             try {
@@ -1,70 +1,226 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
-import { FeatureSpecData } from '../models/featureSpec';
+import { FeatureSpecData, FeatureTemplate, TemplateSource, TemplateVariable } from '../models/featureSpec';
+import { TemplateContext, TemplateEngine } from '../utils/templateEngine';
+import { FileService } from './fileService';
 
 export class TemplateService {
+    private static readonly DEFAULT_TEMPLATE_ID = 'feature';
+    private static readonly DEFAULT_USER_TEMPLATES_DIRECTORY = '~/.codespec/templates';
+    private static readonly SOURCE_LABELS: Record<TemplateSource, string> = {
+        workspace: 'Workspace',
+        user: 'User',
+        builtin: 'Built-in'
+    };
+    // Variables every template gets; front matter may not redeclare them
+    private static readonly BUILTIN_VARIABLES = [
+        'featureName', 'createdDate', 'lastUpdated', 'status', 'cliAgent', 'tags', 'description',
+        'acceptanceCriteria', 'importantFiles', 'additionalContext', 'technicalConsiderations', 'today'
+    ];
+
     private templateCache: Map<string, string> = new Map();
+    private readonly engine = new TemplateEngine();
+    private readonly builtinTemplatesPath: string;
     private readonly defaultTemplatePath: string;
 
-    constructor(private context: vscode.ExtensionContext) {
-        this.defaultTemplatePath = path.join(context.extensionPath, 'src', 'templates', 'defaultFeature.md');
+    constructor(private context: vscode.ExtensionContext, private fileService: FileService) {
+        this.builtinTemplatesPath = path.join(context.extensionPath, 'resources', 'templates');
+        this.defaultTemplatePath = path.join(this.builtinTemplatesPath, `${TemplateService.DEFAULT_TEMPLATE_ID}.md`);
     }
 
     async getDefaultTemplate(): Promise<string> {
         return await this.loadTemplate(this.defaultTemplatePath);
     }
 
+    /**
+     * Scaffolds a new template file from the default template. Refuses to
+     * overwrite an existing file.
+     */
     async createCustomTemplate(templatePath: string): Promise<void> {
         try {
-            const defaultTemplate = await this.getDefaultTemplate();
-            await fs.promises.writeFile(templatePath, defaultTemplate, 'utf8');
+            const defaultTemplate = await this.getDefaultTemplate().catch(() => this.getEmbeddedTemplate());
+            const { body } = this.engine.parseFrontMatter(defaultTemplate);
+            const name = this.formatTemplateName(path.basename(templatePath, '.md'));
+            const frontMatter = [
+                '---',
+                `name: ${name}`,
+                'description: ',
+                '# Extra variables to prompt for when creating a spec; use them as {owner}',
+                '# variables:',
+                '#   - name: owner',
+                '#     prompt: Who owns this work?',
+                '#     default: unassigned',
+                '#   - name: release',
+                '#     options: [next, later]',
+                '---',
+                ''
+            ].join('\n');
+            await fs.promises.mkdir(path.dirname(templatePath), { recursive: true });
+            await fs.promises.writeFile(templatePath, frontMatter + body, { encoding: 'utf8', flag: 'wx' });
         } catch (error) {
             throw new Error(`Failed to create custom template: ${error}`);
         }
     }
 
-    async populateTemplate(templateData: FeatureSpecData): Promise<string> {
+    /**
+     * Lists the templates available to a workspace folder. Workspace templates
+     * (`<features>/templates/*.md`) win over user templates, which win over the
+     * built-in ones when they share a file name.
+     */
+    async listTemplates(folder?: vscode.WorkspaceFolder): Promise<FeatureTemplate[]> {
+        const directories: Array<[string | undefined, TemplateSource]> = [
+            [this.fileService.getWorkspaceFolders().length > 0 ? this.fileService.getTemplatesPath(folder) : undefined, 'workspace'],
+            [this.getUserTemplatesPath(), 'user'],
+            [this.builtinTemplatesPath, 'builtin']
+        ];
+
+        const templates = new Map<string, FeatureTemplate>();
+        for (const [directory, source] of directories) {
+            if (!directory) continue;
+            for (const template of await this.readTemplateDirectory(directory, source)) {
+                if (!templates.has(template.id)) {
+                    templates.set(template.id, template);
+                }
+            }
+        }
+
+        const order: TemplateSource[] = ['workspace', 'user', 'builtin'];
+        return [...templates.values()].sort((a, b) => {
+            if (a.source !== b.source) {
+                return order.indexOf(a.source) - order.indexOf(b.source);
+            }
+            // Keep the default template at the top of its group
+            if (a.id === TemplateService.DEFAULT_TEMPLATE_ID || b.id === TemplateService.DEFAULT_TEMPLATE_ID) {
+                return a.id === TemplateService.DEFAULT_TEMPLATE_ID ? -1 : 1;
+            }
+            return a.name.localeCompare(b.name);
+        });
+    }
+
+    getTemplateQuickPickItem(template: FeatureTemplate): vscode.QuickPickItem & { template: FeatureTemplate } {
+        return {
+            label: template.name,
+            description: TemplateService.SOURCE_LABELS[template.source],
+            detail: template.description || (template.source === 'builtin' ? undefined : template.path),
+            template
+        };
+    }
+
+    getUserTemplatesPath(): string | undefined {
+        const configured = vscode.workspace
+            .getConfiguration('codespec')
+            .get<string>('templates.userDirectory', TemplateService.DEFAULT_USER_TEMPLATES_DIRECTORY)
+            .trim();
+        if (configured.length === 0) {
+            return undefined;
+        }
+
+        const expanded = configured.replace(/^~(?=$|[\\/])/, os.homedir());
+        return path.resolve(expanded);
+    }
+
+    async getTemplateVariables(template: FeatureTemplate): Promise<TemplateVariable[]> {
+        const content = await this.loadTemplate(template.path);
+        return this.engine.parseFrontMatter(content).frontMatter.variables;
+    }
+
+    async populateTemplate(
+        templateData: FeatureSpecData,
+        template?: FeatureTemplate,
+        variables: Record<string, string> = {}
+    ): Promise<string> {
+        // A template the user picked explicitly must load; only the default falls back
+        if (template && template.source !== 'builtin') {
+            const content = await this.loadTemplate(template.path);
+            return this.renderTemplate(content, templateData, variables);
+        }
+
         try {
-            const template = await this.getDefaultTemplate();
-            return this.replaceTemplateVariables(template, templateData);
+            const content = await this.loadTemplate(template?.path || this.defaultTemplatePath);
+            return this.renderTemplate(content, templateData, variables);
         } catch (error) {
             // Fall back to embedded template if file loading fails
             const fallbackTemplate = this.getEmbeddedTemplate();
-            return this.replaceTemplateVariables(fallbackTemplate, templateData);
+            return this.renderTemplate(fallbackTemplate, templateData, variables);
         }
     }
 
+    private async readTemplateDirectory(directory: string, source: TemplateSource): Promise<FeatureTemplate[]> {
+        let entries: fs.Dirent[];
+        try {
+            entries = await fs.promises.readdir(directory, { withFileTypes: true });
+        } catch {
+            // Missing template folders are normal
+            return [];
+        }
+
+        const templates: FeatureTemplate[] = [];
+        for (const entry of entries) {
+            if (!entry.isFile() || !entry.name.endsWith('.md')) {
+                continue;
+            }
+
+            const id = path.basename(entry.name, '.md');
+            const templatePath = path.join(directory, entry.name);
+            let name: string | undefined;
+            let description: string | undefined;
+            try {
+                ({ name, description } = this.engine.parseFrontMatter(await this.loadTemplate(templatePath)).frontMatter);
+            } catch (error) {
+                // Still list broken templates so picking one reports the problem
+                description = `Invalid template: ${error}`;
+            }
+
+            templates.push({
+                id,
+                name: name || this.formatTemplateName(id),
+                description: description || undefined,
+                path: templatePath,
+                source
+            });
+        }
+
+        return templates;
+    }
+
+    private formatTemplateName(id: string): string {
+        return id
+            .split(/[-_\s]+/)
+            .filter(part => part.length > 0)
+            .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+            .join(' ');
+    }
+
     private async loadTemplate(templatePath: string): Promise<string> {
-        // Check cache first
-        if (this.templateCache.has(templatePath)) {
+        // Only built-in templates are cached; user templates may be edited at any time
+        const cacheable = templatePath.startsWith(this.builtinTemplatesPath);
+        if (cacheable && this.templateCache.has(templatePath)) {
             return this.templateCache.get(templatePath)!;
         }
 
         try {
             const content = await fs.promises.readFile(templatePath, 'utf8');
-            if (!this.validateTemplate(content)) {
-                throw new Error('Template validation failed');
-            }
+            this.validateTemplate(content);
             
-            // Cache the template
-            this.templateCache.set(templatePath, content);
+            if (cacheable) {
+                this.templateCache.set(templatePath, content);
+            }
             return content;
         } catch (error) {
             throw new Error(`Failed to load template from ${templatePath}: ${error}`);
         }
     }
 
-    private validateTemplate(content: string): boolean {
-        const requiredPlaceholders = [
-            '{featureName}',
-            '{createdDate}',
-            '{lastUpdated}',
-            '{status}',
-            '{cliAgent}'
-        ];
+    private validateTemplate(content: string): void {
+        const { frontMatter, body } = this.engine.parseFrontMatter(content);
+        const reserved = frontMatter.variables.find(variable => TemplateService.BUILTIN_VARIABLES.includes(variable.name));
+        if (reserved) {
+            throw new Error(`"${reserved.name}" is a built-in template variable and cannot be redeclared`);
+        }
 
-        return requiredPlaceholders.every(placeholder => content.includes(placeholder));
+        this.engine.validate(body);
     }
 
     private sanitizeInput(input: string): string {
@@ -76,26 +232,31 @@ export class TemplateService {
             .trim();
     }
 
-    private formatDate(date: Date): string {
-        return date.toISOString().split('T')[0];
-    }
-
-    private replaceTemplateVariables(template: string, data: FeatureSpecData): string {
-        let result = template;
-
-        // Replace basic placeholders
-        result = result.replace(/{featureName}/g, this.sanitizeInput(data.featureName));
-        result = result.replace(/{createdDate}/g, data.createdDate);
-        result = result.replace(/{lastUpdated}/g, data.lastUpdated);
-        result = result.replace(/{status}/g, data.status);
-        result = result.replace(/{cliAgent}/g, data.cliAgent);
+    private renderTemplate(template: string, data: FeatureSpecData, variables: Record<string, string>): string {
+        const { frontMatter, body } = this.engine.parseFrontMatter(template);
 
-        // Replace optional fields if provided
-        if (data.description) {
-            result = result.replace('[Provide a clear, concise description of the feature. What problem does it solve? Who is the target user?]', this.sanitizeInput(data.description));
+        const context: TemplateContext = {};
+        for (const variable of frontMatter.variables) {
+            const value = variables[variable.name] !== undefined ? this.sanitizeInput(variables[variable.name]) : '';
+            context[variable.name] = value || variable.default || '';
         }
 
-        return result;
+        Object.assign(context, {
+            featureName: this.sanitizeInput(data.featureName),
+            createdDate: data.createdDate,
+            lastUpdated: data.lastUpdated,
+            status: data.status,
+            cliAgent: data.cliAgent,
+            tags: data.tags || [],
+            description: data.description ? this.sanitizeInput(data.description) : undefined,
+            acceptanceCriteria: (data.acceptanceCriteria || []).map(item => this.sanitizeInput(item)),
+            importantFiles: data.importantFiles || [],
+            additionalContext: data.additionalContext,
+            technicalConsiderations: data.technicalConsiderations,
+            today: new Date()
+        });
+
+        return this.engine.render(body, context);
     }
 
     private getEmbeddedTemplate(): string {
@@ -105,32 +266,41 @@ export class TemplateService {
 **Created:** {createdDate}  
 **Last Updated:** {lastUpdated}  
 **Status:** {status}  
-**CLI Agent:** {cliAgent}
+**CLI Agent:** {cliAgent}{#if tags}  
+**Tags:** {tags | join: ", "}{/if}
 
 ## Description
 
-[Provide a clear, concise description of the feature. What problem does it solve? Who is the target user?]
+{description | default: "[Provide a clear, concise description of the feature. What problem does it solve? Who is the target user?]"}
 
 ## Acceptance Criteria
 
+{#each acceptanceCriteria as criterion}
+- [ ] {criterion}
+{else}
 - [ ] [Define what success looks like for this feature]
 - [ ] [Include measurable outcomes where possible]
 - [ ] [Consider edge cases and error scenarios]
+{/each}
 
 ## Important Files to Analyze
 
 <!-- List files that are relevant to this feature implementation -->
 
+{#each importantFiles as file}
+- \`{file}\`
+{else}
 - \`src/components/example.tsx\` - [Brief description of why this file is important]
 - \`src/utils/helper.ts\` - [Context about this file's relevance]
+{/each}
 
 ## Additional Context
 
-[Any additional information, constraints, dependencies, or requirements]
+{additionalContext | default: "[Any additional information, constraints, dependencies, or requirements]"}
 
 ## Technical Considerations
 
-[Any technical constraints, performance requirements, or architectural decisions]
+{technicalConsiderations | default: "[Any technical constraints, performance requirements, or architectural decisions]"}
 
 ---
 
@@ -0,0 +1,182 @@
+import { AgentToolEvent, AgentUsage, OutputFormat, ParsedAgentOutput } from '../models/cliAgent';
+import { JsonObject, JsonValue } from './jsonValue';
+
+// One parsed line of structured output; only `type` is known to be there
+type AgentEvent = JsonObject & { type: string };
+
+/**
+ * Reads what an agent printed on stdout. Structured formats follow Claude
+ * Code's --output-format events:
+ *
+ *     {"type":"system","subtype":"init","session_id":"..."}
+ *     {"type":"assistant","message":{"content":[{"type":"text","text":"..."}]}}
+ *     {"type":"result","result":"...","usage":{...},"total_cost_usd":0.01}
+ *
+ * Lines that are not JSON are CLI chatter and are skipped. When no events are
+ * found at all, the output is used as plain text.
+ */
+export class AgentOutputParser {
+    parse(output: string, format: OutputFormat = 'text'): ParsedAgentOutput {
+        if (format !== 'text') {
+            const events = this.readEvents(output);
+            if (events.length > 0) {
+                return this.parseEvents(events);
+            }
+        }
+
+        return { text: output, structured: false, toolEvents: [] };
+    }
+
+    /**
+     * Returns a decoder that turns stdout chunks into readable text as they
+     * arrive. Structured output is shown once a complete line is available;
+     * a single JSON result only becomes readable when the run finishes.
+     */
+    createStreamDecoder(format: OutputFormat = 'text'): (chunk: string) => string {
+        if (format === 'text') {
+            return chunk => chunk;
+        }
+        if (format === 'json') {
+            return () => '';
+        }
+
+        let pending = '';
+        return chunk => {
+            pending += chunk;
+            const lines = pending.split('\n');
+            pending = lines.pop() ?? '';
+            return lines.map(line => this.describeEvent(this.parseLine(line))).join('');
+        };
+    }
+
+    private readEvents(output: string): AgentEvent[] {
+        const trimmed = output.trim();
+
+        // --output-format json prints one object, or an array of events with --verbose
+        const whole = this.parseLine(trimmed);
+        if (Array.isArray(whole)) {
+            return whole.filter((event): event is AgentEvent => this.isEvent(event));
+        }
+        if (this.isEvent(whole)) {
+            return [whole];
+        }
+
+        return trimmed.split(/\r?\n/)
+            .map(line => this.parseLine(line))
+            .filter((event): event is AgentEvent => this.isEvent(event));
+    }
+
+    private parseEvents(events: AgentEvent[]): ParsedAgentOutput {
+        const parsed: ParsedAgentOutput = { text: '', structured: true, toolEvents: [] };
+        const toolEvents = new Map<string, AgentToolEvent>();
+        // Text from the turns after the last tool result; earlier turns are the agent thinking aloud
+        let finalText: string[] = [];
+        let result: AgentEvent | undefined;
+
+        for (const event of events) {
+            parsed.sessionId = JsonValue.string(event.session_id) ?? parsed.sessionId;
+
+            switch (event.type) {
+                case 'assistant':
+                    for (const block of this.getContent(event)) {
+                        const text = JsonValue.string(block.text);
+                        if (block.type === 'text' && text !== undefined) {
+                            finalText.push(text);
+                        } else if (block.type === 'tool_use') {
+                            const id = JsonValue.string(block.id);
+                            const toolEvent: AgentToolEvent = { id, name: JsonValue.string(block.name) ?? 'unknown', input: block.input };
+                            parsed.toolEvents.push(toolEvent);
+                            if (id) toolEvents.set(id, toolEvent);
+                        }
+                    }
+                    break;
+                case 'user':
+                    for (const block of this.getContent(event)) {
+                        if (block.type !== 'tool_result') continue;
+                        const toolEvent = toolEvents.get(JsonValue.string(block.tool_use_id) ?? '');
+                        if (toolEvent) {
+                            toolEvent.result = this.getBlockText(block.content);
+                            toolEvent.isError = block.is_error === true;
+                        }
+                        finalText = [];
+                    }
+                    break;
+                case 'result':
+                    result = event;
+                    break;
+            }
+        }
+
+        if (result) {
+            parsed.isError = result.is_error === true || JsonValue.string(result.subtype)?.startsWith('error') === true;
+            parsed.usage = this.getUsage(result);
+        }
+
+        parsed.text = JsonValue.string(result?.result) ?? finalText.join('\n\n');
+        return parsed;
+    }
+
+    private getUsage(result: AgentEvent): AgentUsage | undefined {
+        const usage = result.usage;
+        if (!JsonValue.isObject(usage)) {
+            return undefined;
+        }
+
+        return {
+            inputTokens: JsonValue.number(usage.input_tokens) ?? 0,
+            outputTokens: JsonValue.number(usage.output_tokens) ?? 0,
+            cacheReadTokens: JsonValue.number(usage.cache_read_input_tokens),
+            cacheCreationTokens: JsonValue.number(usage.cache_creation_input_tokens),
+            costUsd: JsonValue.number(result.total_cost_usd) ?? JsonValue.number(result.cost_usd),
+            durationMs: JsonValue.number(result.duration_ms),
+            turns: JsonValue.number(result.num_turns)
+        };
+    }
+
+    private describeEvent(event: unknown): string {
+        if (!this.isEvent(event)) {
+            return '';
+        }
+
+        if (event.type === 'assistant') {
+            return this.getContent(event).map(block => {
+                const text = JsonValue.string(block.text);
+                if (block.type === 'text' && text !== undefined) {
+                    return `${text}\n`;
+                }
+                return block.type === 'tool_use' ? `\n> Tool: ${JsonValue.string(block.name) ?? 'unknown'}\n\n` : '';
+            }).join('');
+        }
+        if (event.type === 'result' && event.is_error === true) {
+            return `\n> Error: ${JsonValue.string(event.result) ?? JsonValue.string(event.subtype) ?? 'unknown'}\n`;
+        }
+        return '';
+    }
+
+    private getContent(event: AgentEvent): JsonObject[] {
+        const content = JsonValue.isObject(event.message) ? event.message.content : undefined;
+        return Array.isArray(content) ? content.filter(JsonValue.isObject) : [];
+    }
+
+    private getBlockText(content: unknown): string {
+        if (typeof content === 'string') {
+            return content;
+        }
+        if (Array.isArray(content)) {
+            return content.map(block => JsonValue.isObject(block) ? JsonValue.string(block.text) ?? '' : '').join('');
+        }
+        return '';
+    }
+
+    private isEvent(value: unknown): value is AgentEvent {
+        return JsonValue.isObject(value) && typeof value.type === 'string';
+    }
+
+    private parseLine(line: string): unknown {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) {
+            return undefined;
+        }
+        return JsonValue.parse(trimmed);
+    }
+}
@@ -1,10 +1,16 @@
 import * as vscode from 'vscode';
 import * as cp from 'child_process';
-import { CLIAgentInfo, CLIAgentConfig, SUPPORTED_AGENTS, CLIFeature } from '../models/cliAgent';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CLIAgentInfo, CLIAgentConfig, SUPPORTED_AGENTS, GEMINI_VERTEX_AGENT, CLIFeature, CustomAgentSetting, HttpAgentApi, HttpAgentSetting, OutputFormat } from '../models/cliAgent';
+import { HttpAgentClient } from './httpAgentClient';
+import { CommandLine } from './commandLine';
 
 export class CLIDetector {
     private static readonly COMMAND_TIMEOUT = 5000; // 5 seconds
     private mockMode: boolean = false;
+    private httpClient = new HttpAgentClient();
 
     constructor() {
         // Enable mock mode in test environments
@@ -15,7 +21,7 @@ export class CLIDetector {
     async detectAllAvailableAgents(): Promise<CLIAgentInfo[]> {
         const agents: CLIAgentInfo[] = [];
         
-        for (const config of SUPPORTED_AGENTS) {
+        for (const config of this.getAgentConfigs()) {
             try {
                 const agent = await this.detectAgent(config);
                 agents.push(agent);
@@ -26,10 +32,19 @@ export class CLIDetector {
                     name: config.name,
                     displayName: config.displayName,
                     command: config.command,
+                    versionFlag: config.versionFlag,
                     version: 'Unknown',
                     isAvailable: false,
                     isAuthenticated: false,
-                    supportedFeatures: config.supportedFeatures
+                    supportedFeatures: config.supportedFeatures,
+                    promptDelivery: config.promptDelivery,
+                    outputFormat: config.outputFormat,
+                    args: config.args,
+                    model: config.model,
+                    permissionMode: config.permissionMode,
+                    allowedTools: config.allowedTools,
+                    env: config.env,
+                    endpoint: config.endpoint
                 });
             }
         }
@@ -37,6 +52,115 @@ export class CLIDetector {
         return agents;
     }
 
+    /**
+     * Built-in agents followed by the ones declared in `codespec.agents.custom`
+     * and `codespec.agents.http`. A declared agent with a built-in's name
+     * replaces it.
+     */
+    getAgentConfigs(): CLIAgentConfig[] {
+        const configuration = vscode.workspace.getConfiguration('codespec');
+        const customAgents = configuration.get<CustomAgentSetting[]>('agents.custom', []);
+        const httpAgents = configuration.get<HttpAgentSetting[]>('agents.http', []);
+        const configs = SUPPORTED_AGENTS.map(config => this.applyAgentSettings(config, configuration));
+
+        const vertexProject = configuration.get<string>('gemini.vertexAI.project', '').trim();
+        if (vertexProject) {
+            configs.push(this.applyAgentSettings({
+                ...GEMINI_VERTEX_AGENT,
+                env: {
+                    GOOGLE_GENAI_USE_VERTEXAI: 'true',
+                    GOOGLE_CLOUD_PROJECT: vertexProject,
+                    GOOGLE_CLOUD_LOCATION: configuration.get<string>('gemini.vertexAI.location', 'us-central1')
+                }
+            }, configuration));
+        }
+
+        const declared = [
+            ...(Array.isArray(customAgents) ? customAgents : []).map(setting => this.toAgentConfig(setting)),
+            ...(Array.isArray(httpAgents) ? httpAgents : []).map(setting => this.toHttpAgentConfig(setting))
+        ];
+
+        for (const config of declared) {
+            if (!config) continue;
+
+            const existing = configs.findIndex(agent => agent.name === config.name);
+            if (existing >= 0) {
+                configs[existing] = config;
+            } else {
+                configs.push(config);
+            }
+        }
+
+        return configs;
+    }
+
+    private applyAgentSettings(config: CLIAgentConfig, configuration: vscode.WorkspaceConfiguration): CLIAgentConfig {
+        if (config.command === 'claude') {
+            const model = configuration.get<string>('claude.model', '').trim();
+            return {
+                ...config,
+                model: model || undefined,
+                permissionMode: configuration.get<string>('claude.permissionMode', 'default'),
+                allowedTools: configuration.get<string[]>('claude.allowedTools', [])
+            };
+        }
+        if (config.command === 'gemini') {
+            const model = configuration.get<string>('gemini.model', '').trim();
+            return model ? { ...config, model } : config;
+        }
+        return config;
+    }
+
+    private toAgentConfig(setting: CustomAgentSetting): CLIAgentConfig | undefined {
+        if (!setting || typeof setting.name !== 'string' || !setting.name.trim() ||
+            typeof setting.command !== 'string' || !setting.command.trim()) {
+            console.warn('⚠️ Ignoring custom agent without a name and command:', setting);
+            return undefined;
+        }
+
+        const features = Object.values(CLIFeature) as string[];
+        const args = Array.isArray(setting.args) ? setting.args.map(String) : [];
+        const outputFormats: OutputFormat[] = ['text', 'json', 'stream-json'];
+        const hasSlot = (slot: string) => args.some(arg => arg.includes(slot));
+
+        return {
+            name: setting.name.trim(),
+            displayName: setting.displayName || setting.name.trim(),
+            command: setting.command.trim(),
+            versionFlag: setting.versionFlag ?? '--version',
+            authCheckCommand: setting.authCheckCommand || undefined,
+            supportedFeatures: (setting.supportedFeatures ?? features)
+                .filter(feature => features.includes(feature)) as CLIFeature[],
+            promptDelivery: hasSlot('{promptFile}') ? 'file' : hasSlot('{prompt}') ? 'argument' : 'stdin',
+            outputFormat: outputFormats.includes(setting.outputFormat as OutputFormat) ? setting.outputFormat! : 'text',
+            args
+        };
+    }
+
+    private toHttpAgentConfig(setting: HttpAgentSetting): CLIAgentConfig | undefined {
+        if (!setting || typeof setting.name !== 'string' || !setting.name.trim()) {
+            console.warn('⚠️ Ignoring HTTP agent without a name:', setting);
+            return undefined;
+        }
+
+        const api: HttpAgentApi = setting.api === 'ollama' ? 'ollama' : 'openai';
+        const baseUrl = setting.baseUrl?.trim() || (api === 'ollama' ? 'http://localhost:11434' : 'http://localhost:8080/v1');
+        const features = Object.values(CLIFeature) as string[];
+
+        return {
+            name: setting.name.trim(),
+            displayName: setting.displayName || setting.name.trim(),
+            command: baseUrl,
+            versionFlag: '',
+            supportedFeatures: (setting.supportedFeatures ?? features)
+                .filter(feature => features.includes(feature)) as CLIFeature[],
+            // The prompt goes in the request body; there is no process to deliver it to
+            promptDelivery: 'stdin',
+            outputFormat: 'text',
+            endpoint: { api, baseUrl, model: setting.model?.trim() || '', models: [], apiKeyEnv: setting.apiKeyEnv || undefined }
+        };
+    }
+
     async detectClaudeCode(): Promise<CLIAgentInfo> {
         const config = SUPPORTED_AGENTS.find(agent => agent.name === 'claude-code');
         if (!config) {
@@ -57,6 +181,9 @@ export class CLIDetector {
         if (this.mockMode) {
             return this.createMockAgent(config);
         }
+        if (config.endpoint) {
+            return this.detectHttpAgent(config);
+        }
 
         const isAvailable = await this.checkCommand(config.command, config.versionFlag);
         let version = 'Unknown';
@@ -64,25 +191,63 @@ export class CLIDetector {
 
         if (isAvailable) {
             version = await this.getVersion(config.command, config.versionFlag);
-            if (config.authCheckCommand) {
-                isAuthenticated = await this.checkAuthentication(config.command, config.authCheckCommand);
-            }
+            isAuthenticated = await this.checkAgentAuthentication(config);
         }
 
         return {
             name: config.name,
             displayName: config.displayName,
             command: config.command,
+            versionFlag: config.versionFlag,
             version,
             isAvailable,
             isAuthenticated,
-            supportedFeatures: config.supportedFeatures
+            supportedFeatures: config.supportedFeatures,
+            promptDelivery: config.promptDelivery,
+            outputFormat: config.outputFormat,
+            args: config.args,
+            model: config.model,
+            permissionMode: config.permissionMode,
+            allowedTools: config.allowedTools,
+            env: config.env,
+            endpoint: config.endpoint
+        };
+    }
+
+    /**
+     * An HTTP agent is available when its server answers the model list; the
+     * configured model falls back to the first one listed.
+     */
+    private async detectHttpAgent(config: CLIAgentConfig): Promise<CLIAgentInfo> {
+        const endpoint = config.endpoint!;
+        let models: string[] = [];
+        let isAvailable = false;
+
+        try {
+            models = await this.httpClient.listModels(endpoint);
+            isAvailable = true;
+        } catch (error) {
+            console.warn(`Failed to reach ${config.displayName} at ${endpoint.baseUrl}:`, error);
+        }
+
+        const model = endpoint.model || models[0] || '';
+        return {
+            name: config.name,
+            displayName: config.displayName,
+            command: config.command,
+            version: model || 'Unknown',
+            isAvailable: isAvailable && model.length > 0,
+            isAuthenticated: isAvailable,
+            supportedFeatures: config.supportedFeatures,
+            promptDelivery: config.promptDelivery,
+            outputFormat: config.outputFormat,
+            endpoint: { ...endpoint, model, models }
         };
     }
 
     private async checkCommand(command: string, versionFlag: string): Promise<boolean> {
         try {
-            await this.executeCommand(`${command} ${versionFlag}`);
+            await this.executeCommand(command, CommandLine.split(versionFlag));
             return true;
         } catch (error) {
             return false;
@@ -91,25 +256,92 @@ export class CLIDetector {
 
     private async getVersion(command: string, versionFlag: string): Promise<string> {
         try {
-            const output = await this.executeCommand(`${command} ${versionFlag}`);
+            const output = await this.executeCommand(command, CommandLine.split(versionFlag));
             return this.parseVersion(output);
         } catch (error) {
             return 'Unknown';
         }
     }
 
+    private async checkAgentAuthentication(config: CLIAgentConfig): Promise<boolean> {
+        // A declared agent's own check wins, even when it replaces a built-in
+        if (config.authCheckCommand) {
+            return this.checkAuthentication(config.command, config.authCheckCommand);
+        }
+
+        switch (config.name) {
+            case 'claude-code':
+                return this.hasClaudeCredentials();
+            case 'gemini-cli':
+                return this.hasGeminiCredentials();
+            case 'gemini-vertex':
+                return this.executeCommand('gcloud', ['auth', 'application-default', 'print-access-token']).then(() => true, () => false);
+        }
+
+        // Agents without an auth check have nothing to log into
+        return true;
+    }
+
+    /**
+     * Claude Code signs in with an API key or token from the environment, a
+     * cloud provider switch, or the account it stores in its config directory
+     * (~/.claude.json records the account even where the token is kept in the
+     * OS keychain). Checking these avoids a paid request just to probe.
+     */
+    private hasClaudeCredentials(): boolean {
+        const variables = ['ANTHROPIC_API_KEY', 'ANTHROPIC_AUTH_TOKEN', 'CLAUDE_CODE_OAUTH_TOKEN', 'CLAUDE_CODE_USE_BEDROCK', 'CLAUDE_CODE_USE_VERTEX'];
+        if (variables.some(variable => process.env[variable])) {
+            return true;
+        }
+
+        const configDir = process.env.CLAUDE_CONFIG_DIR || path.join(os.homedir(), '.claude');
+        if (fs.existsSync(path.join(configDir, '.credentials.json'))) {
+            return true;
+        }
+
+        for (const accountFile of [path.join(configDir, '.claude.json'), path.join(os.homedir(), '.claude.json')]) {
+            try {
+                const account = JSON.parse(fs.readFileSync(accountFile, 'utf8'));
+                if (account.oauthAccount || account.primaryApiKey) {
+                    return true;
+                }
+            } catch {
+                // Missing or unreadable
+            }
+        }
+        return false;
+    }
+
+    /**
+     * The gemini CLI signs in with an API key from the environment or with the
+     * Google account credentials it caches in ~/.gemini.
+     */
+    private hasGeminiCredentials(): boolean {
+        if (process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY) {
+            return true;
+        }
+
+        const geminiDir = path.join(os.homedir(), '.gemini');
+        return ['oauth_creds.json', '.env'].some(file => fs.existsSync(path.join(geminiDir, file)));
+    }
+
     private async checkAuthentication(command: string, authCommand: string): Promise<boolean> {
         try {
-            const output = await this.executeCommand(`${command} ${authCommand}`);
+            const output = await this.executeCommand(command, CommandLine.split(authCommand));
             return this.parseAuthenticationStatus(command, output);
         } catch (error) {
             return false;
         }
     }
 
-    private async executeCommand(command: string): Promise<string> {
+    // Settings supply these values, so they never go through a shell
+    private async executeCommand(executable: string, args: string[]): Promise<string> {
+        const target = CommandLine.toSpawnTarget(executable, args);
         return new Promise((resolve, reject) => {
-            cp.exec(command, { timeout: CLIDetector.COMMAND_TIMEOUT }, (error, stdout, stderr) => {
+            cp.execFile(target.file, target.args, {
+                timeout: CLIDetector.COMMAND_TIMEOUT,
+                windowsVerbatimArguments: target.verbatim
+            }, (error, stdout) => {
                 if (error) {
                     reject(error);
                     return;
@@ -132,10 +364,11 @@ export class CLIDetector {
             return !output.toLowerCase().includes('not authenticated') && 
                    !output.toLowerCase().includes('login required');
         } else if (command === 'gcloud') {
-            // Gemini CLI authentication check
+            // gcloud lists the credentialed accounts
             return output.includes('@') && !output.toLowerCase().includes('no credentialed');
         }
-        return false;
+        // Other agents: the auth check command exiting successfully is enough
+        return true;
     }
 
     private createMockAgent(config: CLIAgentConfig): CLIAgentInfo {
@@ -143,10 +376,19 @@ export class CLIDetector {
             name: config.name,
             displayName: config.displayName,
             command: config.command,
+            versionFlag: config.versionFlag,
             version: '1.0.0-mock',
             isAvailable: true,
             isAuthenticated: true,
-            supportedFeatures: config.supportedFeatures
+            supportedFeatures: config.supportedFeatures,
+            promptDelivery: config.promptDelivery,
+            outputFormat: config.outputFormat,
+            args: config.args,
+            model: config.model,
+            permissionMode: config.permissionMode,
+            allowedTools: config.allowedTools,
+            env: config.env,
+            endpoint: config.endpoint
         };
     }
 
@@ -0,0 +1,68 @@
+import { ProposedFileChange } from '../models/featureSpec';
+
+const FENCE_PATTERN = /^(\s*)(`{3,}|~{3,})\s*([^\s`]*)\s*$/;
+
+/**
+ * Extracts proposed file changes from code generation output. Each file is a
+ * fenced block after a line naming its path ("### File: src/app.ts",
+ * "**`src/app.ts`**", ...); a path in the fence info (```ts:src/app.ts) works
+ * as well. When a path appears twice the last block wins.
+ */
+export class CodeChangeParser {
+    parse(output: string): ProposedFileChange[] {
+        const lines = output.split(/\r?\n/);
+        const changes = new Map<string, ProposedFileChange>();
+        let pendingPath: string | undefined;
+
+        for (let index = 0; index < lines.length; index++) {
+            const fence = lines[index].match(FENCE_PATTERN);
+            if (!fence) {
+                // Prose between the label and its block is allowed
+                pendingPath = this.matchFileLabel(lines[index]) ?? pendingPath;
+                continue;
+            }
+
+            // Find the matching closing fence
+            const closing = new RegExp(`^\\s*${fence[2][0]}{${fence[2].length},}\\s*$`);
+            let end = index + 1;
+            while (end < lines.length && !closing.test(lines[end])) {
+                end++;
+            }
+
+            const infoPath = fence[3].includes(':') ? fence[3].substring(fence[3].indexOf(':') + 1) : undefined;
+            const filePath = this.normalizePath(infoPath || pendingPath);
+            if (filePath) {
+                const content = lines.slice(index + 1, end)
+                    .map(line => line.startsWith(fence[1]) ? line.substring(fence[1].length) : line)
+                    .join('\n');
+                changes.set(filePath, { path: filePath, content: content.length > 0 ? `${content}\n` : '' });
+            }
+
+            pendingPath = undefined;
+            index = end;
+        }
+
+        return [...changes.values()];
+    }
+
+    private matchFileLabel(line: string): string | undefined {
+        const text = line.trim()
+            .replace(/^#{1,6}\s+/, '')
+            .replace(/[*`]/g, '')
+            .replace(/^(?:File|Path)\s*:\s*/i, '')
+            .replace(/:$/, '')
+            .trim();
+
+        // A bare path: no spaces, and either a directory or a file extension
+        return /^[\w.\-/\\]+$/.test(text) && /\/|\.[A-Za-z0-9]+$/.test(text) ? text : undefined;
+    }
+
+    private normalizePath(filePath?: string): string | undefined {
+        if (!filePath) {
+            return undefined;
+        }
+
+        const normalized = filePath.trim().replace(/\\/g, '/').replace(/^\.\//, '');
+        return normalized.length > 0 ? normalized : undefined;
+    }
+}
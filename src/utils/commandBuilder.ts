@@ -1,10 +1,13 @@
+import * as os from 'os';
 import * as path from 'path';
-import { CLIAgentInfo } from '../models/cliAgent';
+import { AgentInvocation, CLIAgentInfo, CLIInvocation } from '../models/cliAgent';
 import { ProjectContext, FileAnalysis } from '../models/featureSpec';
 import { PromptBuilder, PromptContext } from '../constants/prompts';
+import { CommandLine } from './commandLine';
+import { HttpAgentClient } from './httpAgentClient';
 
 export class CommandBuilder {
-    private static readonly MAX_COMMAND_LENGTH = 8000;
+    private httpClient = new HttpAgentClient();
 
     buildQuestionnaireCommand(
         agent: CLIAgentInfo,
@@ -12,7 +15,7 @@ export class CommandBuilder {
         context: ProjectContext,
         featureContent: string,
         projectSummary: string
-    ): string {
+    ): AgentInvocation {
         const importantFilesAnalysis = this.formatImportantFilesAnalysis(context.analyzedFiles);
         
         const promptContext: PromptContext = {
@@ -21,13 +24,10 @@ export class CommandBuilder {
             importantFilesAnalysis
         };
 
-        // Truncate if necessary
-        const truncatedContext = PromptBuilder.truncateContext(promptContext);
-        
-        const template = PromptBuilder.getTemplate('questionnaire', agent.name as 'claude-code' | 'gemini-cli');
-        const prompt = PromptBuilder.buildPrompt(template, truncatedContext);
+        const template = PromptBuilder.getTemplate('questionnaire', agent.name);
+        const prompt = PromptBuilder.buildPrompt(template, promptContext);
 
-        return this.buildAgentSpecificCommand(agent, filePath, prompt, 'questionnaire');
+        return this.buildAgentSpecificCommand(agent, filePath, prompt);
     }
 
     buildImplementationCommand(
@@ -36,7 +36,7 @@ export class CommandBuilder {
         context: ProjectContext,
         featureContent: string,
         projectSummary: string
-    ): string {
+    ): AgentInvocation {
         const importantFilesAnalysis = this.formatImportantFilesAnalysis(context.analyzedFiles);
         
         const promptContext: PromptContext = {
@@ -45,12 +45,10 @@ export class CommandBuilder {
             importantFilesAnalysis
         };
 
-        const truncatedContext = PromptBuilder.truncateContext(promptContext);
-        
-        const template = PromptBuilder.getTemplate('implementation', agent.name as 'claude-code' | 'gemini-cli');
-        const prompt = PromptBuilder.buildPrompt(template, truncatedContext);
+        const template = PromptBuilder.getTemplate('implementation', agent.name);
+        const prompt = PromptBuilder.buildPrompt(template, promptContext);
 
-        return this.buildAgentSpecificCommand(agent, filePath, prompt, 'implementation');
+        return this.buildAgentSpecificCommand(agent, filePath, prompt);
     }
 
     buildCodeGenerationCommand(
@@ -60,7 +58,7 @@ export class CommandBuilder {
         featureContent: string,
         projectSummary: string,
         implementationContext: string
-    ): string {
+    ): AgentInvocation {
         const importantFilesAnalysis = this.formatImportantFilesAnalysis(context.analyzedFiles);
         
         const promptContext: PromptContext = {
@@ -70,12 +68,10 @@ export class CommandBuilder {
             importantFilesAnalysis
         };
 
-        const truncatedContext = PromptBuilder.truncateContext(promptContext);
-        
-        const template = PromptBuilder.getTemplate('codegen', agent.name as 'claude-code' | 'gemini-cli');
-        const prompt = PromptBuilder.buildPrompt(template, truncatedContext);
+        const template = PromptBuilder.getTemplate('codegen', agent.name);
+        const prompt = PromptBuilder.buildPrompt(template, promptContext);
 
-        return this.buildAgentSpecificCommand(agent, filePath, prompt, 'codegen');
+        return this.buildAgentSpecificCommand(agent, filePath, prompt);
     }
 
     buildFileAnalysisCommand(
@@ -84,7 +80,7 @@ export class CommandBuilder {
         context: ProjectContext,
         fileContent: string,
         projectSummary: string
-    ): string {
+    ): AgentInvocation {
         const importantFilesAnalysis = this.formatImportantFilesAnalysis(context.analyzedFiles);
         
         const promptContext: PromptContext = {
@@ -95,171 +91,107 @@ export class CommandBuilder {
             importantFilesAnalysis
         };
 
-        const truncatedContext = PromptBuilder.truncateContext(promptContext);
-        
-        const template = PromptBuilder.getTemplate('analysis', agent.name as 'claude-code' | 'gemini-cli');
-        const prompt = PromptBuilder.buildPrompt(template, truncatedContext);
+        const template = PromptBuilder.getTemplate('analysis', agent.name);
+        const prompt = PromptBuilder.buildPrompt(template, promptContext);
 
-        return this.buildAgentSpecificCommand(agent, filePath, prompt, 'analysis');
+        return this.buildAgentSpecificCommand(agent, filePath, prompt);
     }
 
+    /**
+     * The prompt never goes on the command line: agents either read it from
+     * stdin or from a temp file passed as an argument. Agents declared in
+     * settings are the exception when their template has a {prompt} slot.
+     */
     private buildAgentSpecificCommand(
         agent: CLIAgentInfo,
         filePath: string,
-        prompt: string,
-        operation: string
-    ): string {
+        prompt: string
+    ): AgentInvocation {
+        if (agent.endpoint) {
+            return this.httpClient.createInvocation(agent.endpoint, prompt);
+        }
+
+        const promptFile = agent.promptDelivery === 'file'
+            ? { path: this.createPromptFilePath(), content: prompt }
+            : undefined;
+        const executable = agent.executablePath || agent.command;
+
+        if (agent.args) {
+            return {
+                executable,
+                args: this.fillArgsTemplate(agent.args, { prompt, file: filePath, promptFile: promptFile?.path ?? '' }),
+                stdin: agent.promptDelivery === 'stdin' ? prompt : undefined,
+                env: agent.env,
+                promptFile,
+                outputFormat: agent.outputFormat
+            };
+        }
+
         switch (agent.name) {
             case 'claude-code':
-                return this.buildClaudeCodeCommand(filePath, prompt, operation);
+                // Print mode answers the prompt piped to stdin and exits
+                return {
+                    executable,
+                    args: this.buildClaudeCodeArgs(agent),
+                    stdin: prompt,
+                    env: agent.env,
+                    outputFormat: agent.outputFormat
+                };
             case 'gemini-cli':
-                return this.buildGeminiCLICommand(filePath, prompt, operation);
+            case 'gemini-vertex':
+                // Piped stdin puts the gemini CLI in non-interactive mode and is used as the prompt
+                return {
+                    executable,
+                    args: this.buildGeminiCLIArgs(agent.model),
+                    stdin: prompt,
+                    env: agent.env,
+                    outputFormat: 'text'
+                };
             default:
                 throw new Error(`Unsupported agent: ${agent.name}`);
         }
     }
 
-    private buildClaudeCodeCommand(filePath: string, prompt: string, operation: string): string {
-        const escapedFilePath = this.escapeShellArgument(filePath);
-        const escapedPrompt = this.escapeShellArgument(prompt);
-        
-        // Claude Code command structure
-        let command = `claude code --file=${escapedFilePath}`;
-        
-        // Add operation-specific flags if needed
-        switch (operation) {
-            case 'questionnaire':
-                command += ' --task="Generate requirements questions"';
-                break;
-            case 'implementation':
-                command += ' --task="Create implementation plan"';
-                break;
-            case 'codegen':
-                command += ' --task="Generate code"';
-                break;
-            case 'analysis':
-                command += ' --task="Analyze file"';
-                break;
-        }
-        
-        command += ` --prompt=${escapedPrompt}`;
+    private buildClaudeCodeArgs(agent: CLIAgentInfo): string[] {
+        const args = ['-p'];
 
-        // Validate command length
-        if (command.length > CommandBuilder.MAX_COMMAND_LENGTH) {
-            throw new Error(`Command exceeds maximum length of ${CommandBuilder.MAX_COMMAND_LENGTH} characters`);
+        if (agent.outputFormat !== 'text') {
+            // Stream events are only printed in verbose mode
+            args.push('--output-format', agent.outputFormat, ...(agent.outputFormat === 'stream-json' ? ['--verbose'] : []));
         }
-
-        return command;
-    }
-
-    private buildGeminiCLICommand(filePath: string, prompt: string, operation: string): string {
-        const escapedFilePath = this.escapeShellArgument(filePath);
-        const escapedPrompt = this.escapeShellArgument(prompt);
-        
-        // Gemini CLI command structure (using gcloud ai)
-        let command = `gcloud ai generate`;
-        command += ` --input-file=${escapedFilePath}`;
-        command += ` --prompt=${escapedPrompt}`;
-        
-        // Add operation-specific parameters
-        switch (operation) {
-            case 'questionnaire':
-                command += ' --model-type=text --task=requirements-analysis';
-                break;
-            case 'implementation':
-                command += ' --model-type=text --task=planning';
-                break;
-            case 'codegen':
-                command += ' --model-type=code --task=generation';
-                break;
-            case 'analysis':
-                command += ' --model-type=text --task=analysis';
-                break;
+        if (agent.model) {
+            args.push('--model', agent.model);
         }
-
-        // Validate command length
-        if (command.length > CommandBuilder.MAX_COMMAND_LENGTH) {
-            throw new Error(`Command exceeds maximum length of ${CommandBuilder.MAX_COMMAND_LENGTH} characters`);
+        if (agent.permissionMode && agent.permissionMode !== 'default') {
+            args.push('--permission-mode', agent.permissionMode);
         }
-
-        return command;
-    }
-
-    private escapeShellArgument(arg: string): string {
-        // Handle different shell escaping needs
-        if (process.platform === 'win32') {
-            return this.escapeWindowsArgument(arg);
-        } else {
-            return this.escapeUnixArgument(arg);
+        if (agent.allowedTools && agent.allowedTools.length > 0) {
+            args.push('--allowedTools', agent.allowedTools.join(','));
         }
-    }
 
-    private escapeWindowsArgument(arg: string): string {
-        // Windows CMD escaping
-        if (!arg.includes(' ') && !arg.includes('"') && !arg.includes('\n') && !arg.includes('\r')) {
-            return arg;
-        }
-        
-        // Replace quotes and wrap in quotes
-        const escaped = arg.replace(/"/g, '""');
-        return `"${escaped}"`;
+        return args;
     }
 
-    private escapeUnixArgument(arg: string): string {
-        // Unix shell escaping
-        if (!arg.includes(' ') && !arg.includes("'") && !arg.includes('"') && 
-            !arg.includes('\n') && !arg.includes('\r') && !arg.includes('\\')) {
-            return arg;
-        }
-        
-        // Use single quotes for Unix
-        const escaped = arg.replace(/'/g, "'\"'\"'");
-        return `'${escaped}'`;
+    private buildGeminiCLIArgs(model?: string): string[] {
+        return model ? ['--model', model] : [];
     }
 
-    validateCommand(command: string): { isValid: boolean; message?: string } {
-        if (command.length > CommandBuilder.MAX_COMMAND_LENGTH) {
-            return {
-                isValid: false,
-                message: `Command exceeds maximum length of ${CommandBuilder.MAX_COMMAND_LENGTH} characters`
-            };
-        }
-
-        // Check for potentially dangerous characters or patterns
-        const dangerousPatterns = [
-            /[;&|`$()]/,  // Shell injection characters
-            /rm\s+-rf/,   // Dangerous delete commands
-            /sudo/,       // Privilege escalation
-            /curl.*\|.*sh/, // Pipe to shell execution
-        ];
-
-        for (const pattern of dangerousPatterns) {
-            if (pattern.test(command)) {
-                return {
-                    isValid: false,
-                    message: 'Command contains potentially unsafe characters or patterns'
-                };
-            }
-        }
+    // Slots are replaced inside arguments too, so '--input={file}' works
+    private fillArgsTemplate(template: string[], values: Record<'prompt' | 'file' | 'promptFile', string>): string[] {
+        return template.map(arg => arg.replace(/\{(prompt|file|promptFile)\}/g, (_, slot: keyof typeof values) => values[slot]));
+    }
 
-        return { isValid: true };
+    private createPromptFilePath(): string {
+        return path.join(os.tmpdir(), `codespec-prompt-${Date.now()}-${Math.random().toString(36).substring(2, 8)}.md`);
     }
 
-    getCommandPreview(
-        agent: CLIAgentInfo,
-        operation: 'questionnaire' | 'implementation' | 'codegen' | 'analysis',
-        filePath: string
-    ): string {
-        const fileName = path.basename(filePath);
-        
-        switch (agent.name) {
-            case 'claude-code':
-                return `claude code --file="${fileName}" --task="${operation}" --prompt="[Generated prompt...]"`;
-            case 'gemini-cli':
-                return `gcloud ai generate --input-file="${fileName}" --task="${operation}" --prompt="[Generated prompt...]"`;
-            default:
-                return `${agent.command} [generated command for ${operation}]`;
-        }
+    /**
+     * Renders an invocation as a shell command line. For display only; agents
+     * are always spawned from the argument array.
+     */
+    getCommandPreview(invocation: CLIInvocation): string {
+        const commandLine = CommandLine.format(invocation);
+        return invocation.stdin !== undefined ? `${commandLine} < [generated prompt]` : commandLine;
     }
 
     async estimateExecutionTime(
@@ -290,7 +222,7 @@ export class CommandBuilder {
         baseTime += Math.floor(promptLength / 1000) * 5;
         
         // Agent-specific adjustments
-        if (agent.name === 'gemini-cli') {
+        if (agent.name === 'gemini-cli' || agent.name === 'gemini-vertex') {
             baseTime *= 1.2; // Gemini CLI might be slightly slower
         }
         
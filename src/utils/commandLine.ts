@@ -0,0 +1,115 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CLIInvocation } from '../models/cliAgent';
+
+export interface SpawnTarget {
+    file: string;
+    args: string[];
+    verbatim: boolean;
+}
+
+/**
+ * Turns invocations into shell command lines for the terminal and for display,
+ * and works out how to spawn a CLI without a shell.
+ */
+export class CommandLine {
+    /**
+     * `stdinPath` redirects a file to stdin, for shells that run the command
+     * after the prompt has been written to disk.
+     */
+    static format(invocation: CLIInvocation, stdinPath?: string): string {
+        const parts = [invocation.executable, ...invocation.args].map(part => CommandLine.quote(part));
+        if (stdinPath) {
+            parts.push('<', CommandLine.quote(stdinPath));
+        }
+        return parts.join(' ');
+    }
+
+    static quote(arg: string): string {
+        if (arg.length > 0 && /^[\w@%+=:,./-]+$/.test(arg)) {
+            return arg;
+        }
+
+        if (process.platform === 'win32') {
+            // Windows: double quotes, with embedded quotes doubled
+            return `"${arg.replace(/"/g, '""')}"`;
+        }
+
+        // POSIX shells: single quotes, with embedded single quotes closed and escaped
+        return `'${arg.replace(/'/g, `'\\''`)}'`;
+    }
+
+    /**
+     * Splits a settings value such as `auth status` into arguments. Quotes
+     * keep spaces inside an argument; no other shell syntax is understood.
+     */
+    static split(text: string): string[] {
+        const args: string[] = [];
+        let current = '';
+        let inArg = false;
+        let quote: string | undefined;
+
+        for (const char of text) {
+            if (quote) {
+                if (char === quote) {
+                    quote = undefined;
+                } else {
+                    current += char;
+                }
+            } else if (char === '"' || char === "'") {
+                quote = char;
+                inArg = true;
+            } else if (/\s/.test(char)) {
+                if (inArg) {
+                    args.push(current);
+                    current = '';
+                    inArg = false;
+                }
+            } else {
+                current += char;
+                inArg = true;
+            }
+        }
+
+        if (inArg) {
+            args.push(current);
+        }
+        return args;
+    }
+
+    /**
+     * Node cannot spawn Windows batch files (how npm installs CLIs) without
+     * cmd.exe, so those run through cmd.exe with every argument escaped for it.
+     */
+    static toSpawnTarget(executable: string, args: string[]): SpawnTarget {
+        if (process.platform !== 'win32' || !CommandLine.isWindowsBatchFile(executable)) {
+            return { file: executable, args, verbatim: false };
+        }
+
+        const escapeMeta = (text: string) => text.replace(/([()\][%!^"`<>&|;, *?])/g, '^$1');
+        const quote = (arg: string) => `"${arg.replace(/(\\*)"/g, '$1$1\\"').replace(/(\\*)$/, '$1$1')}"`;
+        // Batch shims expand their arguments a second time, hence the double escape
+        const commandLine = [
+            escapeMeta(executable),
+            ...args.map(arg => escapeMeta(escapeMeta(quote(arg))))
+        ].join(' ');
+
+        return { file: process.env.ComSpec || 'cmd.exe', args: ['/d', '/s', '/c', `"${commandLine}"`], verbatim: true };
+    }
+
+    private static isWindowsBatchFile(executable: string): boolean {
+        if (path.extname(executable)) {
+            return /^\.(cmd|bat)$/i.test(path.extname(executable));
+        }
+
+        const extensions = (process.env.PATHEXT || '.COM;.EXE;.BAT;.CMD').split(';');
+        const directories = path.isAbsolute(executable) ? [''] : (process.env.PATH || '').split(path.delimiter);
+        for (const directory of directories) {
+            const extension = extensions.find(ext => fs.existsSync(path.join(directory, executable + ext)));
+            if (extension) {
+                return /^\.(cmd|bat)$/i.test(extension);
+            }
+        }
+        return false;
+    }
+}
@@ -0,0 +1,270 @@
+import * as vscode from 'vscode';
+import * as http from 'http';
+import * as https from 'https';
+import { AgentUsage, CLIExecutionResult, HttpAgentApi, HttpAgentEndpoint, HttpInvocation } from '../models/cliAgent';
+import { JsonObject, JsonValue } from './jsonValue';
+
+interface StreamEvent {
+    text?: string;
+    usage?: AgentUsage;
+    error?: string;
+}
+
+/**
+ * Talks to local model servers. Replies are streamed, as server-sent events
+ * from OpenAI-compatible servers or one JSON object per line from Ollama, and
+ * returned in the same shape as CLI results.
+ */
+export class HttpAgentClient {
+    private static readonly LIST_TIMEOUT = 5000; // 5 seconds
+
+    /**
+     * Builds a streaming chat request for a single user prompt.
+     */
+    createInvocation(endpoint: HttpAgentEndpoint, prompt: string): HttpInvocation {
+        const baseUrl = this.trimBaseUrl(endpoint.baseUrl);
+        const messages = [{ role: 'user', content: prompt }];
+
+        if (endpoint.api === 'ollama') {
+            return {
+                api: 'ollama',
+                url: `${baseUrl}/api/chat`,
+                headers: this.getHeaders(endpoint.apiKeyEnv),
+                body: { model: endpoint.model, messages, stream: true }
+            };
+        }
+
+        return {
+            api: 'openai',
+            url: `${baseUrl}/chat/completions`,
+            headers: this.getHeaders(endpoint.apiKeyEnv),
+            body: { model: endpoint.model, messages, stream: true, stream_options: { include_usage: true } }
+        };
+    }
+
+    async listModels(endpoint: Pick<HttpAgentEndpoint, 'api' | 'baseUrl' | 'apiKeyEnv'>): Promise<string[]> {
+        const baseUrl = this.trimBaseUrl(endpoint.baseUrl);
+        const url = endpoint.api === 'ollama' ? `${baseUrl}/api/tags` : `${baseUrl}/models`;
+        const response = await this.get(url, this.getHeaders(endpoint.apiKeyEnv));
+
+        if (response.status < 200 || response.status >= 300) {
+            throw new Error(this.describeHttpError(response.status, response.body));
+        }
+
+        const data = JsonValue.parse(response.body);
+        if (!JsonValue.isObject(data)) {
+            throw new Error(`Unexpected model list from ${url}: ${response.body.trim().substring(0, 200) || 'No response body'}`);
+        }
+
+        const models = endpoint.api === 'ollama' ? data.models : data.data;
+        return Array.isArray(models)
+            ? models
+                .map(model => JsonValue.isObject(model) ? JsonValue.string(endpoint.api === 'ollama' ? model.name : model.id) : undefined)
+                .filter((name): name is string => name !== undefined)
+            : [];
+    }
+
+    send(
+        invocation: HttpInvocation,
+        options: {
+            timeout: number;
+            cancellationToken?: vscode.CancellationToken;
+            onOutput?: (chunk: string) => void;
+        }
+    ): Promise<CLIExecutionResult> {
+        return new Promise((resolve) => {
+            let output = '';
+            let body = '';
+            let pending = '';
+            let usage: AgentUsage | undefined;
+            let streamError: string | undefined;
+            let isResolved = false;
+            let timeoutId: NodeJS.Timeout | undefined;
+
+            const finish = (result: CLIExecutionResult) => {
+                if (!isResolved) {
+                    isResolved = true;
+                    clearTimeout(timeoutId);
+                    resolve(result);
+                }
+            };
+
+            const handleLine = (line: string) => {
+                const event = this.parseStreamLine(invocation.api, line);
+                if (event?.text) {
+                    output += event.text;
+                    if (!isResolved) {
+                        options.onOutput?.(event.text);
+                    }
+                }
+                usage = event?.usage ?? usage;
+                streamError = event?.error ?? streamError;
+            };
+
+            const payload = JSON.stringify(invocation.body);
+            const url = new URL(invocation.url);
+            const request = (url.protocol === 'https:' ? https : http).request(url, {
+                method: 'POST',
+                headers: { ...invocation.headers, 'Content-Length': Buffer.byteLength(payload) }
+            }, response => {
+                const status = response.statusCode ?? 0;
+                response.setEncoding('utf8');
+
+                response.on('data', (chunk: string) => {
+                    body += chunk;
+                    if (status < 200 || status >= 300) return;
+
+                    pending += chunk;
+                    const lines = pending.split('\n');
+                    pending = lines.pop() ?? '';
+                    lines.forEach(handleLine);
+                });
+
+                response.on('end', () => {
+                    if (status < 200 || status >= 300) {
+                        finish({ success: false, output: '', error: this.describeHttpError(status, body), exitCode: -1 });
+                        return;
+                    }
+
+                    handleLine(pending);
+                    // Some servers ignore `stream` and answer with a single JSON object
+                    if (output.length === 0 && !streamError) {
+                        output = this.readCompleteResponse(invocation.api, body) ?? '';
+                    }
+
+                    finish({
+                        success: !streamError,
+                        output,
+                        error: streamError,
+                        exitCode: streamError ? -1 : 0,
+                        usage
+                    });
+                });
+            });
+
+            request.on('error', error => {
+                finish({
+                    success: false,
+                    output,
+                    error: `Could not reach ${url.origin}: ${error.message}`,
+                    exitCode: -1
+                });
+            });
+
+            options.cancellationToken?.onCancellationRequested(() => {
+                request.destroy();
+                finish({ success: false, output, error: 'Operation was cancelled', exitCode: -1, cancelled: true });
+            });
+
+            timeoutId = setTimeout(() => {
+                request.destroy();
+                finish({ success: false, output, error: `Request timed out after ${options.timeout}ms`, exitCode: -1 });
+            }, options.timeout);
+
+            request.end(payload);
+        });
+    }
+
+    private parseStreamLine(api: HttpAgentApi, line: string): StreamEvent | undefined {
+        let data = line.trim();
+        if (api === 'openai') {
+            // Server-sent events: "data: {...}", ending with "data: [DONE]"
+            if (!data.startsWith('data:')) return undefined;
+            data = data.substring(5).trim();
+            if (data === '[DONE]') return undefined;
+        }
+
+        const event = JsonValue.parse(data);
+        if (!JsonValue.isObject(event)) {
+            return undefined;
+        }
+        if (event.error) {
+            return { error: this.getErrorMessage(event.error) };
+        }
+
+        if (api === 'ollama') {
+            const totalDuration = JsonValue.number(event.total_duration);
+            return {
+                text: this.getMessageContent(event.message),
+                usage: event.done === true ? {
+                    inputTokens: JsonValue.number(event.prompt_eval_count) ?? 0,
+                    outputTokens: JsonValue.number(event.eval_count) ?? 0,
+                    durationMs: totalDuration ? Math.round(totalDuration / 1e6) : undefined
+                } : undefined
+            };
+        }
+
+        const choice = this.getFirstChoice(event.choices);
+        return {
+            text: choice ? this.getMessageContent(choice.delta) : undefined,
+            usage: JsonValue.isObject(event.usage) ? {
+                inputTokens: JsonValue.number(event.usage.prompt_tokens) ?? 0,
+                outputTokens: JsonValue.number(event.usage.completion_tokens) ?? 0
+            } : undefined
+        };
+    }
+
+    private readCompleteResponse(api: HttpAgentApi, body: string): string | undefined {
+        const response = JsonValue.parse(body.trim());
+        if (!JsonValue.isObject(response)) {
+            return undefined;
+        }
+        if (api === 'ollama') {
+            return this.getMessageContent(response.message);
+        }
+        const choice = this.getFirstChoice(response.choices);
+        return choice ? this.getMessageContent(choice.message) : undefined;
+    }
+
+    // OpenAI puts replies in `choices[0].delta` (streamed) or `choices[0].message`
+    private getFirstChoice(choices: unknown): JsonObject | undefined {
+        const choice = Array.isArray(choices) ? choices[0] : undefined;
+        return JsonValue.isObject(choice) ? choice : undefined;
+    }
+
+    private getMessageContent(message: unknown): string | undefined {
+        return JsonValue.isObject(message) ? JsonValue.string(message.content) : undefined;
+    }
+
+    // Servers report errors as a string or as an object with a message
+    private getErrorMessage(error: unknown): string {
+        const message = JsonValue.isObject(error) ? JsonValue.string(error.message) : JsonValue.string(error);
+        return message ?? JSON.stringify(error);
+    }
+
+    private describeHttpError(status: number, body: string): string {
+        const response = JsonValue.parse(body);
+        const message = JsonValue.isObject(response) && response.error ? this.getErrorMessage(response.error) : undefined;
+        if (status === 401 || status === 403) {
+            return `Authentication failed (HTTP ${status}). Check the API key environment variable of the agent.`;
+        }
+        return `HTTP ${status}: ${message || body.trim().substring(0, 200) || 'No response body'}`;
+    }
+
+    private get(url: string, headers: Record<string, string>): Promise<{ status: number; body: string }> {
+        return new Promise((resolve, reject) => {
+            const target = new URL(url);
+            const request = (target.protocol === 'https:' ? https : http).get(target, { headers }, response => {
+                let body = '';
+                response.setEncoding('utf8');
+                response.on('data', (chunk: string) => body += chunk);
+                response.on('end', () => resolve({ status: response.statusCode ?? 0, body }));
+            });
+            request.setTimeout(HttpAgentClient.LIST_TIMEOUT, () => request.destroy(new Error('Request timed out')));
+            request.on('error', reject);
+        });
+    }
+
+    private getHeaders(apiKeyEnv?: string): Record<string, string> {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        const apiKey = apiKeyEnv ? process.env[apiKeyEnv] : undefined;
+        if (apiKey) {
+            headers.Authorization = `Bearer ${apiKey}`;
+        }
+        return headers;
+    }
+
+    private trimBaseUrl(baseUrl: string): string {
+        return baseUrl.trim().replace(/\/+$/, '');
+    }
+}
@@ -0,0 +1,28 @@
+export type JsonObject = Record<string, unknown>;
+
+/**
+ * Narrows parsed JSON from agent output and model servers. Neither is
+ * guaranteed to have the documented shape, so every field is checked before
+ * it is used.
+ */
+export class JsonValue {
+    static isObject(value: unknown): value is JsonObject {
+        return typeof value === 'object' && value !== null && !Array.isArray(value);
+    }
+
+    static string(value: unknown): string | undefined {
+        return typeof value === 'string' ? value : undefined;
+    }
+
+    static number(value: unknown): number | undefined {
+        return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+    }
+
+    static parse(text: string): unknown {
+        try {
+            return JSON.parse(text);
+        } catch {
+            return undefined;
+        }
+    }
+}
@@ -0,0 +1,169 @@
+import * as vscode from 'vscode';
+
+// Thrown out of a step to move the flow backwards or abort it
+class InputFlowAction {
+    static readonly back = new InputFlowAction();
+    static readonly cancel = new InputFlowAction();
+}
+
+export type InputStep = (input: MultiStepInput) => Thenable<InputStep | void>;
+
+interface StepOptions {
+    title: string;
+    step: number;
+    totalSteps: number;
+    placeholder?: string;
+    ignoreFocusOut?: boolean;
+}
+
+export interface InputBoxStepOptions extends StepOptions {
+    value?: string;
+    prompt: string;
+    validate?: (value: string) => string | undefined;
+}
+
+export interface QuickPickStepOptions<T extends vscode.QuickPickItem> extends StepOptions {
+    items: T[];
+    activeItems?: T[];
+    selectedItems?: T[];
+    canPickMany?: boolean;
+    matchOnDescription?: boolean;
+}
+
+/**
+ * Runs a chain of QuickInput steps that share one title bar and a Back button.
+ * Each step returns the next one; Back re-runs the previous step, Escape ends
+ * the flow and makes `run` resolve to false.
+ */
+export class MultiStepInput {
+    private current?: vscode.QuickInput;
+    private steps: InputStep[] = [];
+
+    static async run(start: InputStep): Promise<boolean> {
+        const input = new MultiStepInput();
+        return input.stepThrough(start);
+    }
+
+    private async stepThrough(start: InputStep): Promise<boolean> {
+        let step: InputStep | void = start;
+        try {
+            while (step) {
+                this.steps.push(step);
+                if (this.current) {
+                    this.current.enabled = false;
+                    this.current.busy = true;
+                }
+                try {
+                    step = await step(this);
+                } catch (error) {
+                    if (error === InputFlowAction.back) {
+                        this.steps.pop();
+                        step = this.steps.pop();
+                    } else if (error === InputFlowAction.cancel) {
+                        return false;
+                    } else {
+                        throw error;
+                    }
+                }
+            }
+            return true;
+        } finally {
+            this.current?.dispose();
+        }
+    }
+
+    async showInputBox(options: InputBoxStepOptions): Promise<string> {
+        const disposables: vscode.Disposable[] = [];
+        try {
+            return await new Promise<string>((resolve, reject) => {
+                const input = vscode.window.createInputBox();
+                input.title = options.title;
+                input.step = options.step;
+                input.totalSteps = options.totalSteps;
+                input.value = options.value || '';
+                input.prompt = options.prompt;
+                input.placeholder = options.placeholder;
+                input.ignoreFocusOut = options.ignoreFocusOut ?? true;
+                input.buttons = this.steps.length > 1 ? [vscode.QuickInputButtons.Back] : [];
+
+                disposables.push(
+                    input.onDidTriggerButton(button => {
+                        if (button === vscode.QuickInputButtons.Back) {
+                            reject(InputFlowAction.back);
+                        }
+                    }),
+                    input.onDidAccept(() => {
+                        const message = options.validate?.(input.value);
+                        if (message) {
+                            input.validationMessage = message;
+                            return;
+                        }
+                        input.enabled = false;
+                        input.busy = true;
+                        resolve(input.value);
+                    }),
+                    input.onDidChangeValue(value => {
+                        input.validationMessage = options.validate?.(value);
+                    }),
+                    input.onDidHide(() => reject(InputFlowAction.cancel))
+                );
+
+                this.replaceCurrent(input);
+            });
+        } finally {
+            disposables.forEach(disposable => disposable.dispose());
+        }
+    }
+
+    async showQuickPick<T extends vscode.QuickPickItem>(options: QuickPickStepOptions<T>): Promise<T[]> {
+        const disposables: vscode.Disposable[] = [];
+        try {
+            return await new Promise<T[]>((resolve, reject) => {
+                const input = vscode.window.createQuickPick<T>();
+                input.title = options.title;
+                input.step = options.step;
+                input.totalSteps = options.totalSteps;
+                input.placeholder = options.placeholder;
+                input.ignoreFocusOut = options.ignoreFocusOut ?? true;
+                input.canSelectMany = options.canPickMany ?? false;
+                input.matchOnDescription = options.matchOnDescription ?? false;
+                input.items = options.items;
+                if (options.activeItems) {
+                    input.activeItems = options.activeItems;
+                }
+                if (options.selectedItems) {
+                    input.selectedItems = options.selectedItems;
+                }
+                input.buttons = this.steps.length > 1 ? [vscode.QuickInputButtons.Back] : [];
+
+                disposables.push(
+                    input.onDidTriggerButton(button => {
+                        if (button === vscode.QuickInputButtons.Back) {
+                            reject(InputFlowAction.back);
+                        }
+                    }),
+                    input.onDidAccept(() => {
+                        const selection = input.canSelectMany ? input.selectedItems : input.activeItems.slice(0, 1);
+                        if (!input.canSelectMany && selection.length === 0) {
+                            return;
+                        }
+                        resolve([...selection]);
+                    }),
+                    input.onDidHide(() => reject(InputFlowAction.cancel))
+                );
+
+                this.replaceCurrent(input);
+            });
+        } finally {
+            disposables.forEach(disposable => disposable.dispose());
+        }
+    }
+
+    private replaceCurrent(input: vscode.QuickInput): void {
+        // Show the next step before dropping the previous one to avoid flicker
+        const previous = this.current;
+        this.current = input;
+        input.show();
+        previous?.dispose();
+    }
+}
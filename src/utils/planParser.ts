@@ -0,0 +1,142 @@
+import { PlanTask, PlanTaskGroup } from '../models/featureSpec';
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const LIST_ITEM_PATTERN = /^(\s*)([-*+]|\d+[.)])\s+(?:\[([ xX])\]\s+)?(.+?)\s*$/;
+
+/**
+ * Turns the headings and list items of an implementation plan into a task
+ * list. Progress is stored in the plan itself as GitHub task list checkboxes:
+ *
+ *     ### 2. Implementation Steps
+ *     - [x] Add the session store
+ *     - [ ] Wire the logout endpoint
+ */
+export class PlanParser {
+    /**
+     * Parses lines `start` up to `end` of `content`; the range lets a plan
+     * embedded in a spec section be read in place.
+     */
+    parse(content: string, start = 0, end?: number): PlanTaskGroup[] {
+        const lines = content.split(/\r?\n/);
+        const groups: PlanTaskGroup[] = [];
+        const usedIds = new Set<string>();
+        let group: PlanTaskGroup = { tasks: [] };
+        let stack: Array<{ indent: number; task: PlanTask }> = [];
+        let inFence = false;
+
+        for (let index = start; index < (end ?? lines.length); index++) {
+            const line = lines[index];
+            if (/^\s*(```|~~~)/.test(line)) {
+                inFence = !inFence;
+                continue;
+            }
+            if (inFence) continue;
+
+            const heading = line.match(HEADING_PATTERN);
+            if (heading) {
+                if (group.tasks.length > 0) {
+                    groups.push(group);
+                }
+                group = { heading: this.stripMarkdown(heading[2]), tasks: [] };
+                stack = [];
+                continue;
+            }
+
+            const item = line.match(LIST_ITEM_PATTERN);
+            if (!item) continue;
+
+            const indent = item[1].length;
+            while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+                stack.pop();
+            }
+
+            const parent = stack[stack.length - 1]?.task;
+            const text = this.stripMarkdown(item[4]);
+            const task: PlanTask = {
+                id: this.createId(parent ? parent.id : this.slugify(group.heading || 'plan'), text, usedIds),
+                text,
+                done: item[3] !== undefined && item[3] !== ' ',
+                line: index,
+                children: []
+            };
+
+            (parent ? parent.children : group.tasks).push(task);
+            stack.push({ indent, task });
+        }
+
+        if (group.tasks.length > 0) {
+            groups.push(group);
+        }
+        return groups;
+    }
+
+    /**
+     * Rewrites the list item on `line` with a checked or unchecked box, adding
+     * the box if the item does not have one yet.
+     */
+    setTaskState(content: string, line: number, done: boolean): string {
+        const eol = content.includes('\r\n') ? '\r\n' : '\n';
+        const lines = content.split(/\r?\n/);
+        const match = lines[line]?.match(/^(\s*(?:[-*+]|\d+[.)])\s+)(?:\[[ xX]\]\s+)?(.*)$/);
+        if (!match) {
+            throw new Error(`Line ${line + 1} is not a plan task`);
+        }
+
+        lines[line] = `${match[1]}[${done ? 'x' : ' '}] ${match[2]}`;
+        return lines.join(eol);
+    }
+
+    findTask(groups: PlanTaskGroup[], id: string): PlanTask | undefined {
+        const search = (tasks: PlanTask[]): PlanTask | undefined => {
+            for (const task of tasks) {
+                const found = task.id === id ? task : search(task.children);
+                if (found) return found;
+            }
+            return undefined;
+        };
+
+        for (const group of groups) {
+            const found = search(group.tasks);
+            if (found) return found;
+        }
+        return undefined;
+    }
+
+    countTasks(tasks: PlanTask[]): { total: number; completed: number } {
+        let total = 0;
+        let completed = 0;
+        for (const task of tasks) {
+            const children = this.countTasks(task.children);
+            total += 1 + children.total;
+            completed += (task.done ? 1 : 0) + children.completed;
+        }
+        return { total, completed };
+    }
+
+    private createId(prefix: string, text: string, usedIds: Set<string>): string {
+        const base = `${prefix}/${this.slugify(text)}`;
+        let id = base;
+        for (let occurrence = 2; usedIds.has(id); occurrence++) {
+            id = `${base}~${occurrence}`;
+        }
+        usedIds.add(id);
+        return id;
+    }
+
+    private slugify(text: string): string {
+        return text
+            .toLowerCase()
+            .replace(/[^a-z0-9]+/g, '-')
+            .replace(/^-+|-+$/g, '')
+            .substring(0, 60) || 'item';
+    }
+
+    private stripMarkdown(text: string): string {
+        return text
+            .replace(/^\d+\.\s+/, '')
+            .replace(/\*\*(.+?)\*\*/g, '$1')
+            .replace(/__(.+?)__/g, '$1')
+            .replace(/`([^`]+)`/g, '$1')
+            .trim();
+    }
+}
@@ -0,0 +1,115 @@
+import { ClarifyingQuestion } from '../models/featureSpec';
+
+const QUESTION_PATTERN = /^(\s*)(\d+)[.)]\s+(.+?)\s*$/;
+const ANSWER_PATTERN = /^\s*>\s*\*\*Answer:\*\*\s?(.*)$/;
+const QUOTE_CONTINUATION_PATTERN = /^\s*>\s?(.*)$/;
+
+/**
+ * Reads and writes answers for generated clarifying questions. Questions are
+ * the numbered list items in the generated markdown; each answer lives in a
+ * blockquote directly under its question:
+ *
+ *     1. How should expired sessions be handled?
+ *        > **Answer:** Redirect to the login page and keep the return URL.
+ */
+export class QuestionnaireParser {
+    parse(content: string): ClarifyingQuestion[] {
+        const lines = content.split(/\r?\n/);
+        const questions: ClarifyingQuestion[] = [];
+        let inFence = false;
+
+        for (let index = 0; index < lines.length; index++) {
+            if (/^\s*(```|~~~)/.test(lines[index])) {
+                inFence = !inFence;
+                continue;
+            }
+
+            const match = inFence ? null : lines[index].match(QUESTION_PATTERN);
+            if (!match) continue;
+
+            const indent = match[1].length;
+            let text = match[3];
+            let line = index + 1;
+
+            // Wrapped question text is indented under the list marker
+            while (line < lines.length && this.isContinuation(lines[line], indent)) {
+                text += ` ${lines[line].trim()}`;
+                line++;
+            }
+
+            let answer: string | undefined;
+            const answerMatch = line < lines.length ? lines[line].match(ANSWER_PATTERN) : null;
+            if (answerMatch) {
+                const answerLines = [answerMatch[1]];
+                line++;
+                while (line < lines.length && !ANSWER_PATTERN.test(lines[line])) {
+                    const continuation = lines[line].match(QUOTE_CONTINUATION_PATTERN);
+                    if (!continuation) break;
+                    answerLines.push(continuation[1]);
+                    line++;
+                }
+                answer = answerLines.join('\n').trim() || undefined;
+            }
+
+            questions.push({ number: Number(match[2]), text, answer, line: index, endLine: line });
+            index = line - 1;
+        }
+
+        return questions;
+    }
+
+    /**
+     * Returns `content` with the answer block of each question replaced by
+     * `answers[i]` (matched by position). Empty answers remove the block.
+     */
+    applyAnswers(content: string, answers: Array<string | undefined>): string {
+        const eol = content.includes('\r\n') ? '\r\n' : '\n';
+        const lines = content.split(/\r?\n/);
+        const questions = this.parse(content);
+
+        // Work bottom-up so earlier line indexes stay valid
+        for (let i = questions.length - 1; i >= 0; i--) {
+            const question = questions[i];
+            const answer = answers[i]?.trim();
+
+            let textEnd = question.line + 1;
+            while (textEnd < question.endLine && !ANSWER_PATTERN.test(lines[textEnd])) {
+                textEnd++;
+            }
+
+            const indent = ' '.repeat(lines[question.line].match(/^\s*\d+[.)]\s+/)![0].length);
+            const block = answer
+                ? answer.split(/\r?\n/).map((text, index) =>
+                    index === 0 ? `${indent}> **Answer:** ${text}` : `${indent}> ${text}`.trimEnd())
+                : [];
+
+            lines.splice(textEnd, question.endLine - textEnd, ...block);
+        }
+
+        return lines.join(eol);
+    }
+
+    /**
+     * Formats answered questions as a compact block for the planning prompt.
+     */
+    formatAnswered(questions: ClarifyingQuestion[]): string {
+        const answered = questions.filter(question => question.answer);
+        if (answered.length === 0) {
+            return '';
+        }
+
+        return [
+            '## Clarifying Questions and Answers',
+            '',
+            ...answered.map(question => `${question.number}. ${question.text}\n   Answer: ${question.answer!.replace(/\n/g, '\n   ')}`)
+        ].join('\n');
+    }
+
+    private isContinuation(line: string, indent: number): boolean {
+        if (line.trim().length === 0 || ANSWER_PATTERN.test(line) || QUESTION_PATTERN.test(line)) {
+            return false;
+        }
+        const lineIndent = line.match(/^\s*/)![0].length;
+        return lineIndent > indent && !/^\s*([-*+]|>)\s/.test(line);
+    }
+}
@@ -0,0 +1,571 @@
+import {
+    FeatureSpecData,
+    FeatureSpecMetadata,
+    ParsedFeatureSpec,
+    SpecSection,
+    FeatureStatus,
+    FeatureCLIAgent,
+    FEATURE_STATUSES
+} from '../models/featureSpec';
+
+export const SPEC_SECTIONS = {
+    DESCRIPTION: 'Description',
+    ACCEPTANCE_CRITERIA: 'Acceptance Criteria',
+    IMPORTANT_FILES: 'Important Files to Analyze',
+    ADDITIONAL_CONTEXT: 'Additional Context',
+    TECHNICAL_CONSIDERATIONS: 'Technical Considerations',
+    CLARIFYING_QUESTIONS: 'Clarifying Questions',
+    IMPLEMENTATION_PLAN: 'Implementation Plan',
+    METADATA: 'Metadata'
+};
+
+// Marks the start of the generated part of a spec
+export const DO_NOT_EDIT_MARKER = 'DO NOT EDIT BELOW THIS LINE';
+
+const HEADER_FIELDS = {
+    created: 'Created',
+    lastUpdated: 'Last Updated',
+    status: 'Status',
+    cliAgent: 'CLI Agent',
+    tags: 'Tags'
+};
+
+const METADATA_FIELDS: { [K in keyof FeatureSpecMetadata]-?: string } = {
+    created: 'Created',
+    lastUpdated: 'Last Updated',
+    cliAgentUsed: 'CLI Agent Used',
+    questionsGenerated: 'Questions Generated',
+    planGenerated: 'Plan Generated',
+    statusChanged: 'Status Changed'
+};
+
+const CLI_AGENTS: FeatureCLIAgent[] = ['claude-code', 'gemini-cli', 'Not Set'];
+
+export class SpecParser {
+    private static readonly TITLE_PREFIX = 'Feature Specification:';
+    // Templates title their specs "<Kind>: <name>", e.g. "Bug Report: login-crash"
+    private static readonly TITLE_PATTERN = /^([A-Z][\w ]*):\s+(.+)$/;
+
+    parse(content: string): ParsedFeatureSpec {
+        const eol = content.includes('\r\n') ? '\r\n' : '\n';
+        const { preamble, sections } = this.splitSections(content.split(/\r?\n/));
+
+        const spec: ParsedFeatureSpec = {
+            data: {
+                featureName: '',
+                createdDate: '',
+                lastUpdated: '',
+                status: 'Draft',
+                cliAgent: 'Not Set'
+            },
+            metadata: {
+                created: '',
+                lastUpdated: '',
+                cliAgentUsed: ''
+            },
+            preamble,
+            sections,
+            eol
+        };
+
+        spec.data = this.extractData(spec);
+        spec.metadata = this.extractMetadata(spec);
+
+        return spec;
+    }
+
+    serialize(spec: ParsedFeatureSpec): string {
+        const working: ParsedFeatureSpec = {
+            ...spec,
+            preamble: [...spec.preamble],
+            sections: spec.sections.map(section => ({ ...section, lines: [...section.lines] }))
+        };
+
+        this.applyHeader(working);
+        this.applySections(working);
+        this.applyMetadata(working);
+
+        const lines = [...working.preamble];
+        for (const section of working.sections) {
+            lines.push(section.headingLine, ...section.lines);
+        }
+
+        return lines.join(working.eol);
+    }
+
+    getSection(spec: ParsedFeatureSpec, heading: string): SpecSection | undefined {
+        const target = heading.toLowerCase();
+        return spec.sections.find(section => section.heading.toLowerCase() === target);
+    }
+
+    getSectionContent(spec: ParsedFeatureSpec, heading: string): string | undefined {
+        const section = this.getSection(spec, heading);
+        if (!section) {
+            return undefined;
+        }
+
+        const { start, end } = this.getContentRange(section);
+        return section.lines.slice(start, end).join('\n').trim();
+    }
+
+    /**
+     * Returns the line range of a section's body as it appears in the file
+     * the spec was parsed from.
+     */
+    getSectionLineRange(spec: ParsedFeatureSpec, heading: string): { start: number; end: number } | undefined {
+        let line = spec.preamble.length;
+        for (const section of spec.sections) {
+            if (section.heading.toLowerCase() === heading.toLowerCase()) {
+                return { start: line + 1, end: line + 1 + section.lines.length };
+            }
+            line += 1 + section.lines.length;
+        }
+        return undefined;
+    }
+
+    /**
+     * Replaces the editable body of a section, keeping the heading, any leading
+     * HTML comments and the trailing rule / "DO NOT EDIT" marker intact.
+     * Creates the section (before `insertBefore`, or at the end) if it is missing.
+     */
+    setSectionContent(spec: ParsedFeatureSpec, heading: string, content: string, insertBefore?: string): void {
+        let section = this.getSection(spec, heading);
+
+        if (!section) {
+            section = { heading, headingLine: `## ${heading}`, lines: ['', ''] };
+            const anchor = insertBefore ? this.getSection(spec, insertBefore) : undefined;
+            const index = anchor ? spec.sections.indexOf(anchor) : spec.sections.length;
+            spec.sections.splice(index, 0, section);
+        }
+
+        this.replaceContent(section, content.split(/\r?\n/));
+    }
+
+    /**
+     * Returns the part of a spec the user wrote, i.e. everything above the
+     * "DO NOT EDIT" marker, without the rule that introduces it.
+     */
+    getAuthoredContent(content: string): string {
+        const lines = content.split(/\r?\n/);
+        const markerIndex = lines.findIndex(line => line.includes(DO_NOT_EDIT_MARKER));
+        if (markerIndex === -1) {
+            return content;
+        }
+
+        const authored = lines.slice(0, markerIndex);
+        while (authored.length > 0 && /^\s*(-{3,}|\*{3,}|_{3,})?\s*$/.test(authored[authored.length - 1])) {
+            authored.pop();
+        }
+        return authored.join('\n');
+    }
+
+    /**
+     * Shifts markdown headings so the shallowest one sits at `minLevel`, which
+     * keeps generated output nested inside the section it is written into.
+     */
+    demoteHeadings(content: string, minLevel = 3): string {
+        const lines = content.split(/\r?\n/);
+        let inFence = false;
+        const headings: number[] = [];
+
+        lines.forEach((line, index) => {
+            if (/^\s*(```|~~~)/.test(line)) {
+                inFence = !inFence;
+            } else if (!inFence && /^#{1,6}\s/.test(line)) {
+                headings.push(index);
+            }
+        });
+
+        const shallowest = Math.min(...headings.map(index => lines[index].match(/^#+/)![0].length));
+        const shift = minLevel - shallowest;
+        if (headings.length === 0 || shift <= 0) {
+            return content;
+        }
+
+        for (const index of headings) {
+            const level = Math.min(lines[index].match(/^#+/)![0].length + shift, 6);
+            lines[index] = lines[index].replace(/^#+/, '#'.repeat(level));
+        }
+        return lines.join('\n');
+    }
+
+    private splitSections(lines: string[]): { preamble: string[]; sections: SpecSection[] } {
+        const preamble: string[] = [];
+        const sections: SpecSection[] = [];
+        let current: SpecSection | undefined;
+        let inFence = false;
+
+        for (const line of lines) {
+            if (/^\s*(```|~~~)/.test(line)) {
+                inFence = !inFence;
+            }
+
+            const headingMatch = inFence ? null : line.match(/^##\s+(.+?)\s*#*\s*$/);
+            if (headingMatch) {
+                current = { heading: headingMatch[1].trim(), headingLine: line, lines: [] };
+                sections.push(current);
+            } else if (current) {
+                current.lines.push(line);
+            } else {
+                preamble.push(line);
+            }
+        }
+
+        return { preamble, sections };
+    }
+
+    private extractData(spec: ParsedFeatureSpec): FeatureSpecData {
+        return {
+            featureName: this.extractTitle(spec.preamble),
+            createdDate: this.readField(spec.preamble, HEADER_FIELDS.created) || '',
+            lastUpdated: this.readField(spec.preamble, HEADER_FIELDS.lastUpdated) || '',
+            status: this.normalizeStatus(this.readField(spec.preamble, HEADER_FIELDS.status)),
+            cliAgent: this.normalizeAgent(this.readField(spec.preamble, HEADER_FIELDS.cliAgent)),
+            tags: this.parseTags(this.readField(spec.preamble, HEADER_FIELDS.tags)),
+            description: this.extractProse(this.getSection(spec, SPEC_SECTIONS.DESCRIPTION)),
+            acceptanceCriteria: this.extractChecklist(this.getSection(spec, SPEC_SECTIONS.ACCEPTANCE_CRITERIA)),
+            importantFiles: this.extractFileList(this.getSection(spec, SPEC_SECTIONS.IMPORTANT_FILES)),
+            additionalContext: this.extractProse(this.getSection(spec, SPEC_SECTIONS.ADDITIONAL_CONTEXT)),
+            technicalConsiderations: this.extractProse(this.getSection(spec, SPEC_SECTIONS.TECHNICAL_CONSIDERATIONS))
+        };
+    }
+
+    private extractMetadata(spec: ParsedFeatureSpec): FeatureSpecMetadata {
+        const lines = this.getSection(spec, SPEC_SECTIONS.METADATA)?.lines || [];
+
+        return {
+            created: this.readField(lines, METADATA_FIELDS.created) || '',
+            lastUpdated: this.readField(lines, METADATA_FIELDS.lastUpdated) || '',
+            cliAgentUsed: this.readField(lines, METADATA_FIELDS.cliAgentUsed) || '',
+            questionsGenerated: this.readField(lines, METADATA_FIELDS.questionsGenerated),
+            planGenerated: this.readField(lines, METADATA_FIELDS.planGenerated),
+            statusChanged: this.readField(lines, METADATA_FIELDS.statusChanged)
+        };
+    }
+
+    private extractTitle(preamble: string[]): string {
+        for (const line of preamble) {
+            const match = line.match(/^#\s+(.+?)\s*$/);
+            if (match) {
+                const title = match[1].match(SpecParser.TITLE_PATTERN);
+                return title ? title[2] : match[1];
+            }
+        }
+        return '';
+    }
+
+    private extractProse(section?: SpecSection): string | undefined {
+        if (!section) {
+            return undefined;
+        }
+
+        const { start, end } = this.getContentRange(section);
+        const text = section.lines.slice(start, end).join('\n')
+            .replace(/<!--[\s\S]*?-->/g, '')
+            .trim();
+
+        return text.length === 0 || this.isPlaceholder(text) ? undefined : text;
+    }
+
+    private extractChecklist(section?: SpecSection): string[] | undefined {
+        if (!section) {
+            return undefined;
+        }
+
+        const items = this.getListItems(section)
+            .map(line => this.parseChecklistItem(line))
+            .filter(item => item.length > 0 && !this.isPlaceholder(item));
+
+        return items.length > 0 ? items : undefined;
+    }
+
+    private extractFileList(section?: SpecSection): string[] | undefined {
+        if (!section) {
+            return undefined;
+        }
+
+        const files = this.getListItems(section)
+            .map(line => this.parseFileItem(line))
+            .filter(file => file.length > 0 && !this.isPlaceholder(file));
+
+        return files.length > 0 ? files : undefined;
+    }
+
+    private getListItems(section: SpecSection): string[] {
+        const { start, end } = this.getContentRange(section);
+        return section.lines.slice(start, end).filter(line => /^\s*[-*+]\s+/.test(line));
+    }
+
+    private parseChecklistItem(line: string): string {
+        const match = line.match(/^\s*[-*+]\s+(?:\[[ xX]\]\s*)?(.*)$/);
+        return match ? match[1].trim() : '';
+    }
+
+    private parseFileItem(line: string): string {
+        const backticked = line.match(/`([^`]+)`/);
+        if (backticked) {
+            return backticked[1].trim();
+        }
+
+        const match = line.match(/^\s*[-*+]\s+(.*?)(?:\s+-\s+.*)?$/);
+        return match ? match[1].trim() : '';
+    }
+
+    private isPlaceholder(text: string): boolean {
+        return /^\[[^\]]*\]$/.test(text.trim());
+    }
+
+    /**
+     * The editable part of a section ends at a horizontal rule or the
+     * "DO NOT EDIT" marker; everything after it belongs to the trailer.
+     */
+    private getContentRange(section: SpecSection): { start: number; end: number } {
+        const isBoundary = (line: string) =>
+            /^\s*(-{3,}|\*{3,}|_{3,})\s*$/.test(line) || line.includes(DO_NOT_EDIT_MARKER);
+
+        // Only a rule / marker in the section's tail closes it; rules inside
+        // the content (common in generated output) belong to the content
+        let tail = section.lines.length;
+        while (tail > 0 && (section.lines[tail - 1].trim() === '' || isBoundary(section.lines[tail - 1])
+            || /^\s*<!--.*-->\s*$/.test(section.lines[tail - 1]))) {
+            tail--;
+        }
+
+        const boundary = section.lines.slice(tail).findIndex(isBoundary);
+        return { start: 0, end: boundary === -1 ? section.lines.length : tail + boundary };
+    }
+
+    private replaceContent(section: SpecSection, content: string[]): void {
+        const { start, end } = this.getContentRange(section);
+        const current = section.lines.slice(start, end);
+
+        // Keep instructional comments that sit at the top of the section
+        const comments: string[] = [];
+        for (const line of current) {
+            if (/^\s*<!--.*-->\s*$/.test(line)) {
+                comments.push(line);
+            } else if (line.trim() !== '') {
+                break;
+            }
+        }
+
+        const body = this.trimBlankLines(content);
+        const replacement = [
+            '',
+            ...(comments.length > 0 ? [...comments, ''] : []),
+            ...(body.length > 0 ? [...body, ''] : [])
+        ];
+
+        section.lines.splice(start, end - start, ...replacement);
+    }
+
+    private trimBlankLines(lines: string[]): string[] {
+        let start = 0;
+        let end = lines.length;
+        while (start < end && lines[start].trim() === '') {
+            start++;
+        }
+        while (end > start && lines[end - 1].trim() === '') {
+            end--;
+        }
+        return lines.slice(start, end);
+    }
+
+    private readField(lines: string[], key: string): string | undefined {
+        const pattern = this.fieldPattern(key);
+        for (const line of lines) {
+            const match = line.match(pattern);
+            if (match) {
+                const value = match[2].trim();
+                return value.length === 0 || this.isPlaceholder(value) ? undefined : value;
+            }
+        }
+        return undefined;
+    }
+
+    private writeField(lines: string[], key: string, value: string, newLinePrefix: string): void {
+        const pattern = this.fieldPattern(key);
+        const index = lines.findIndex(line => pattern.test(line));
+
+        if (index !== -1) {
+            lines[index] = lines[index].replace(pattern, (_match, prefix: string, _old: string, suffix: string) =>
+                `${prefix}${value}${suffix}`
+            );
+            return;
+        }
+
+        // Insert after the last existing field, or after the title / at the top
+        let insertAt = -1;
+        lines.forEach((line, i) => {
+            if (/^\s*(?:[-*+]\s+)?\*\*[^*]+:\*\*/.test(line)) {
+                insertAt = i;
+            }
+        });
+        if (insertAt === -1) {
+            insertAt = lines.findIndex(line => line.trim().length > 0);
+        }
+        // Header fields rely on a trailing double space for markdown line breaks
+        if (newLinePrefix === '' && insertAt >= 0 && /\*\*[^*]+:\*\*/.test(lines[insertAt]) && !lines[insertAt].endsWith('  ')) {
+            lines[insertAt] = `${lines[insertAt].trimEnd()}  `;
+        }
+        lines.splice(insertAt + 1, 0, `${newLinePrefix}**${key}:** ${value}`);
+    }
+
+    private fieldPattern(key: string): RegExp {
+        const escaped = key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        return new RegExp(`^(\\s*(?:[-*+]\\s+)?\\*\\*${escaped}:\\*\\*\\s*)(.*?)(\\s*)$`);
+    }
+
+    private applyHeader(spec: ParsedFeatureSpec): void {
+        const { data, preamble } = spec;
+
+        if (data.featureName !== this.extractTitle(preamble)) {
+            const index = preamble.findIndex(line => /^#\s+/.test(line));
+            if (index !== -1) {
+                // Keep the template's kind label
+                const label = preamble[index].replace(/^#\s+/, '').match(SpecParser.TITLE_PATTERN)?.[1];
+                preamble[index] = `# ${label ? `${label}:` : SpecParser.TITLE_PREFIX} ${data.featureName}`;
+            } else {
+                preamble.unshift(`# ${SpecParser.TITLE_PREFIX} ${data.featureName}`, '');
+            }
+        }
+
+        const fields: Array<[string, string, string | undefined]> = [
+            [HEADER_FIELDS.created, data.createdDate, this.readField(preamble, HEADER_FIELDS.created)],
+            [HEADER_FIELDS.lastUpdated, data.lastUpdated, this.readField(preamble, HEADER_FIELDS.lastUpdated)],
+            [HEADER_FIELDS.status, data.status, this.normalizeStatus(this.readField(preamble, HEADER_FIELDS.status))],
+            [HEADER_FIELDS.cliAgent, data.cliAgent, this.normalizeAgent(this.readField(preamble, HEADER_FIELDS.cliAgent))]
+        ];
+
+        for (const [key, value, current] of fields) {
+            if (value && value !== (current || '')) {
+                this.writeField(preamble, key, value, '');
+            }
+        }
+
+        const currentTags = this.parseTags(this.readField(preamble, HEADER_FIELDS.tags));
+        if (data.tags && !this.sameList(data.tags, currentTags)) {
+            this.writeField(preamble, HEADER_FIELDS.tags, data.tags.join(', '), '');
+        }
+    }
+
+    private applySections(spec: ParsedFeatureSpec): void {
+        const { data } = spec;
+
+        const prose: Array<[string, string | undefined]> = [
+            [SPEC_SECTIONS.DESCRIPTION, data.description],
+            [SPEC_SECTIONS.ADDITIONAL_CONTEXT, data.additionalContext],
+            [SPEC_SECTIONS.TECHNICAL_CONSIDERATIONS, data.technicalConsiderations]
+        ];
+
+        for (const [heading, value] of prose) {
+            const section = this.getSection(spec, heading);
+            if (value !== undefined && value !== this.extractProse(section)) {
+                this.setSectionContent(spec, heading, value, this.findInsertionAnchor(spec, heading));
+            }
+        }
+
+        const criteriaSection = this.getSection(spec, SPEC_SECTIONS.ACCEPTANCE_CRITERIA);
+        if (data.acceptanceCriteria && !this.sameList(data.acceptanceCriteria, this.extractChecklist(criteriaSection))) {
+            const existing = criteriaSection ? this.getListItems(criteriaSection) : [];
+            const rendered = data.acceptanceCriteria.map(item =>
+                existing.find(line => this.parseChecklistItem(line) === item) || `- [ ] ${item}`
+            );
+            this.setSectionContent(
+                spec,
+                SPEC_SECTIONS.ACCEPTANCE_CRITERIA,
+                rendered.join('\n'),
+                this.findInsertionAnchor(spec, SPEC_SECTIONS.ACCEPTANCE_CRITERIA)
+            );
+        }
+
+        const filesSection = this.getSection(spec, SPEC_SECTIONS.IMPORTANT_FILES);
+        if (data.importantFiles && !this.sameList(data.importantFiles, this.extractFileList(filesSection))) {
+            const existing = filesSection ? this.getListItems(filesSection) : [];
+            const rendered = data.importantFiles.map(file =>
+                existing.find(line => this.parseFileItem(line) === file) || `- \`${file}\``
+            );
+            this.setSectionContent(
+                spec,
+                SPEC_SECTIONS.IMPORTANT_FILES,
+                rendered.join('\n'),
+                this.findInsertionAnchor(spec, SPEC_SECTIONS.IMPORTANT_FILES)
+            );
+        }
+    }
+
+    /**
+     * Writes metadata values that differ from the file. An empty string clears
+     * an optional field (its line is removed); `undefined` leaves it untouched.
+     */
+    private applyMetadata(spec: ParsedFeatureSpec): void {
+        const current = this.extractMetadata(spec);
+        const keys = Object.keys(METADATA_FIELDS) as Array<keyof FeatureSpecMetadata>;
+
+        const changed = keys.filter(key => {
+            const value = spec.metadata[key];
+            return value !== undefined && value !== '' && value !== current[key];
+        });
+        const cleared = keys.filter(key => spec.metadata[key] === '' && current[key]);
+
+        let section = this.getSection(spec, SPEC_SECTIONS.METADATA);
+
+        if (section) {
+            for (const key of cleared) {
+                const pattern = this.fieldPattern(METADATA_FIELDS[key]);
+                section.lines = section.lines.filter(line => !pattern.test(line));
+            }
+        }
+
+        if (changed.length === 0) {
+            return;
+        }
+
+        if (!section) {
+            section = { heading: SPEC_SECTIONS.METADATA, headingLine: `## ${SPEC_SECTIONS.METADATA}`, lines: [''] };
+            spec.sections.push(section);
+        }
+
+        for (const key of changed) {
+            this.writeField(section.lines, METADATA_FIELDS[key], spec.metadata[key]!, '- ');
+        }
+    }
+
+    /**
+     * New user-editable sections go in front of the next section in template
+     * order so they never land below the "DO NOT EDIT" marker.
+     */
+    private findInsertionAnchor(spec: ParsedFeatureSpec, heading: string): string | undefined {
+        const order = Object.values(SPEC_SECTIONS);
+        const later = order.slice(order.indexOf(heading) + 1);
+        return later.find(candidate => this.getSection(spec, candidate) !== undefined);
+    }
+
+    private parseTags(value?: string): string[] | undefined {
+        if (!value) {
+            return undefined;
+        }
+
+        const tags = value.split(',')
+            .map(tag => tag.trim().replace(/^#/, ''))
+            .filter(tag => tag.length > 0);
+
+        return tags.length > 0 ? tags : undefined;
+    }
+
+    private sameList(a: string[], b?: string[]): boolean {
+        const other = b || [];
+        return a.length === other.length && a.every((item, i) => item === other[i]);
+    }
+
+    private normalizeStatus(value?: string): FeatureStatus {
+        const match = FEATURE_STATUSES.find(status => status.toLowerCase() === value?.toLowerCase());
+        return match || 'Draft';
+    }
+
+    private normalizeAgent(value?: string): FeatureCLIAgent {
+        const match = CLI_AGENTS.find(agent => agent.toLowerCase() === value?.toLowerCase());
+        // Anything else names an agent declared in settings
+        return match || value?.trim() || 'Not Set';
+    }
+}
@@ -0,0 +1,452 @@
+import { TemplateFrontMatter, TemplateVariable } from '../models/featureSpec';
+
+export type TemplateValue =
+    | string
+    | number
+    | boolean
+    | Date
+    | undefined
+    | TemplateValue[]
+    | { [key: string]: TemplateValue };
+
+export type TemplateContext = Record<string, TemplateValue>;
+
+interface TemplateFilter {
+    name: string;
+    argument?: string;
+}
+
+type TemplateNode =
+    | { type: 'text'; value: string }
+    | { type: 'variable'; path: string[]; filters: TemplateFilter[]; raw: string }
+    | { type: 'if'; path: string[]; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[] }
+    | { type: 'each'; path: string[]; alias: string; body: TemplateNode[]; otherwise: TemplateNode[] };
+
+interface TemplateToken {
+    kind: 'text' | 'variable' | 'if' | 'each' | 'else' | 'endif' | 'endeach';
+    raw: string;
+    expression: string;
+    line: number;
+}
+
+type BlockNode = Extract<TemplateNode, { type: 'if' | 'each' }>;
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July',
+    'August', 'September', 'October', 'November', 'December'];
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * Renders spec templates. The syntax is deliberately small:
+ *
+ * - `{name}`, `{item.path}` - variables; unknown names are left as written
+ * - `{name | default: "text"}`, `{createdDate | date: "MMM D, YYYY"}`,
+ *   `{name | upper}`, `{name | lower}`, `{list | join: ", "}` - filters
+ * - `{#if name}...{else}...{/if}` and `{#if !name}` - optional sections
+ * - `{#each list as item}...{else}...{/each}` - loops, with `{@index}` (1-based)
+ *
+ * Block tags that sit alone on a line remove the whole line, so templates can
+ * keep them on their own lines without leaving blank gaps behind.
+ */
+export class TemplateEngine {
+    private static readonly TAG_PATTERN =
+        /\{(?:(#if|#each)\s+([^}]*)|(else|\/if|\/each)|(@?[A-Za-z_]\w*(?:\.[A-Za-z_]\w*)*)((?:\s*\|\s*\w+(?:\s*:\s*(?:"[^"]*"|'[^']*'|[^|}]*))?)*)\s*)\}/g;
+    private static readonly FRONT_MATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+
+    /**
+     * Splits `---` delimited front matter off a template. The front matter is a
+     * small YAML subset: `name`, `description` and a `variables` list whose
+     * entries are either a bare name or a map of TemplateVariable fields.
+     */
+    parseFrontMatter(content: string): { frontMatter: TemplateFrontMatter; body: string } {
+        const match = content.match(TemplateEngine.FRONT_MATTER_PATTERN);
+        if (!match) {
+            return { frontMatter: { variables: [] }, body: content };
+        }
+
+        const frontMatter: TemplateFrontMatter = { variables: [] };
+        let inVariables = false;
+        let current: TemplateVariable | undefined;
+
+        match[1].split(/\r?\n/).forEach((line, index) => {
+            if (line.trim().length === 0 || line.trim().startsWith('#')) {
+                return;
+            }
+
+            const topLevel = line.match(/^([A-Za-z_]\w*):\s*(.*)$/);
+            if (topLevel) {
+                const [, key, value] = topLevel;
+                inVariables = key === 'variables';
+                current = undefined;
+                if (key === 'name' || key === 'description') {
+                    frontMatter[key] = this.parseScalar(value);
+                }
+                return;
+            }
+
+            if (!inVariables) {
+                return;
+            }
+
+            const item = line.match(/^\s+-\s*(.*)$/);
+            if (item) {
+                const entry = item[1].match(/^([A-Za-z_]\w*):\s*(.*)$/);
+                current = { name: entry ? '' : this.parseScalar(item[1]) };
+                frontMatter.variables.push(current);
+                if (entry) {
+                    this.setVariableField(current, entry[1], entry[2], index + 2);
+                }
+                return;
+            }
+
+            const field = line.match(/^\s+([A-Za-z_]\w*):\s*(.*)$/);
+            if (field && current) {
+                this.setVariableField(current, field[1], field[2], index + 2);
+                return;
+            }
+
+            throw new Error(`Invalid front matter on line ${index + 2}: "${line.trim()}"`);
+        });
+
+        for (const variable of frontMatter.variables) {
+            if (!/^[A-Za-z_]\w*$/.test(variable.name)) {
+                throw new Error(`Invalid template variable name "${variable.name}"`);
+            }
+        }
+
+        return { frontMatter, body: content.substring(match[0].length) };
+    }
+
+    /**
+     * Parses a template body without rendering it. Throws on unbalanced or
+     * misplaced block tags.
+     */
+    validate(body: string): void {
+        this.parse(body);
+    }
+
+    render(body: string, context: TemplateContext): string {
+        return this.renderNodes(this.parse(body), context);
+    }
+
+    formatDate(value: TemplateValue, format: string): string {
+        const date = this.toDate(value);
+        if (!date) {
+            return value === undefined ? '' : String(value);
+        }
+
+        const pad = (n: number) => String(n).padStart(2, '0');
+        const tokens: Record<string, string> = {
+            YYYY: String(date.getFullYear()),
+            YY: String(date.getFullYear()).slice(-2),
+            MMMM: MONTHS[date.getMonth()],
+            MMM: MONTHS[date.getMonth()].substring(0, 3),
+            MM: pad(date.getMonth() + 1),
+            M: String(date.getMonth() + 1),
+            DD: pad(date.getDate()),
+            D: String(date.getDate()),
+            dddd: WEEKDAYS[date.getDay()],
+            ddd: WEEKDAYS[date.getDay()].substring(0, 3),
+            HH: pad(date.getHours()),
+            mm: pad(date.getMinutes()),
+            ss: pad(date.getSeconds())
+        };
+
+        return format.replace(/YYYY|YY|MMMM|MMM|MM|M|DD|D|dddd|ddd|HH|mm|ss/g, token => tokens[token]);
+    }
+
+    private setVariableField(variable: TemplateVariable, key: string, value: string, line: number): void {
+        switch (key) {
+            case 'name':
+            case 'prompt':
+            case 'placeholder':
+            case 'default':
+                variable[key] = this.parseScalar(value);
+                break;
+            case 'required':
+                variable.required = this.parseScalar(value) === 'true';
+                break;
+            case 'options':
+                variable.options = this.parseList(value);
+                break;
+            default:
+                throw new Error(`Unknown variable field "${key}" on front matter line ${line}`);
+        }
+    }
+
+    private parseScalar(value: string): string {
+        const trimmed = value.trim();
+        const quoted = trimmed.match(/^"(.*)"$|^'(.*)'$/);
+        return quoted ? (quoted[1] ?? quoted[2]) : trimmed;
+    }
+
+    private parseList(value: string): string[] {
+        const trimmed = value.trim().replace(/^\[|\]$/g, '');
+        return trimmed
+            .split(',')
+            .map(item => this.parseScalar(item))
+            .filter(item => item.length > 0);
+    }
+
+    private tokenize(body: string): TemplateToken[] {
+        const tokens: TemplateToken[] = [];
+        let position = 0;
+
+        const pushText = (end: number) => {
+            if (end > position) {
+                tokens.push({ kind: 'text', raw: body.substring(position, end), expression: '', line: 0 });
+            }
+        };
+
+        for (const match of body.matchAll(TemplateEngine.TAG_PATTERN)) {
+            const start = match.index!;
+            let end = start + match[0].length;
+            const line = body.substring(0, start).split('\n').length;
+            let kind: TemplateToken['kind'];
+            let expression = '';
+
+            if (match[1]) {
+                kind = match[1] === '#if' ? 'if' : 'each';
+                expression = match[2].trim();
+            } else if (match[3]) {
+                kind = match[3] === 'else' ? 'else' : match[3] === '/if' ? 'endif' : 'endeach';
+            } else {
+                pushText(start);
+                tokens.push({ kind: 'variable', raw: match[0], expression: match[4] + (match[5] || ''), line });
+                position = end;
+                continue;
+            }
+
+            // A block tag alone on its line swallows the line
+            let textEnd = start;
+            const lineStart = body.lastIndexOf('\n', start - 1) + 1;
+            const lineEndMatch = body.substring(end).match(/^[ \t]*(\r?\n|$)/);
+            if (lineStart >= position && /^[ \t]*$/.test(body.substring(lineStart, start)) && lineEndMatch) {
+                textEnd = lineStart;
+                end += lineEndMatch[0].length;
+            }
+
+            pushText(textEnd);
+            tokens.push({ kind, raw: match[0], expression, line });
+            position = end;
+        }
+
+        pushText(body.length);
+        return tokens;
+    }
+
+    private parse(body: string): TemplateNode[] {
+        const root: TemplateNode[] = [];
+        const stack: Array<{ node: BlockNode; line: number; inElse: boolean }> = [];
+
+        const target = (): TemplateNode[] => {
+            const top = stack[stack.length - 1];
+            if (!top) {
+                return root;
+            }
+            if (top.inElse) {
+                return top.node.otherwise;
+            }
+            return top.node.type === 'if' ? top.node.then : top.node.body;
+        };
+
+        for (const token of this.tokenize(body)) {
+            switch (token.kind) {
+                case 'text':
+                    target().push({ type: 'text', value: token.raw });
+                    break;
+                case 'variable': {
+                    const [name, ...filters] = token.expression.split(/\|(?=(?:[^"']|"[^"]*"|'[^']*')*$)/);
+                    target().push({
+                        type: 'variable',
+                        path: name.trim().split('.'),
+                        filters: filters.map(filter => this.parseFilter(filter, token.line)),
+                        raw: token.raw
+                    });
+                    break;
+                }
+                case 'if': {
+                    const match = token.expression.match(/^(!?)\s*(@?[A-Za-z_]\w*(?:\.[A-Za-z_]\w*)*)$/);
+                    if (!match) {
+                        throw new Error(`Invalid condition "${token.expression}" on line ${token.line}`);
+                    }
+                    const node: BlockNode = { type: 'if', path: match[2].split('.'), negate: match[1] === '!', then: [], otherwise: [] };
+                    target().push(node);
+                    stack.push({ node, line: token.line, inElse: false });
+                    break;
+                }
+                case 'each': {
+                    const match = token.expression.match(/^([A-Za-z_]\w*(?:\.[A-Za-z_]\w*)*)(?:\s+as\s+([A-Za-z_]\w*))?$/);
+                    if (!match) {
+                        throw new Error(`Invalid loop "${token.expression}" on line ${token.line}`);
+                    }
+                    const node: BlockNode = { type: 'each', path: match[1].split('.'), alias: match[2] || 'item', body: [], otherwise: [] };
+                    target().push(node);
+                    stack.push({ node, line: token.line, inElse: false });
+                    break;
+                }
+                case 'else': {
+                    const top = stack[stack.length - 1];
+                    if (!top || top.inElse) {
+                        throw new Error(`Unexpected {else} on line ${token.line}`);
+                    }
+                    top.inElse = true;
+                    break;
+                }
+                case 'endif':
+                case 'endeach': {
+                    const expected = token.kind === 'endif' ? 'if' : 'each';
+                    const top = stack.pop();
+                    if (!top || top.node.type !== expected) {
+                        throw new Error(`Unexpected ${token.raw} on line ${token.line}`);
+                    }
+                    break;
+                }
+            }
+        }
+
+        const unclosed = stack.pop();
+        if (unclosed) {
+            throw new Error(`Unclosed {#${unclosed.node.type}} opened on line ${unclosed.line}`);
+        }
+
+        return root;
+    }
+
+    private parseFilter(filter: string, line: number): TemplateFilter {
+        const match = filter.trim().match(/^(\w+)(?:\s*:\s*(.*))?$/);
+        if (!match || !['default', 'date', 'upper', 'lower', 'join'].includes(match[1])) {
+            throw new Error(`Unknown filter "${filter.trim()}" on line ${line}`);
+        }
+        return {
+            name: match[1],
+            argument: match[2] !== undefined ? this.parseScalar(match[2]) : undefined
+        };
+    }
+
+    private renderNodes(nodes: TemplateNode[], context: TemplateContext): string {
+        let output = '';
+
+        for (const node of nodes) {
+            switch (node.type) {
+                case 'text':
+                    output += node.value;
+                    break;
+                case 'variable':
+                    output += this.renderVariable(node, context);
+                    break;
+                case 'if': {
+                    const truthy = this.isTruthy(this.resolve(node.path, context).value);
+                    output += this.renderNodes(truthy !== node.negate ? node.then : node.otherwise, context);
+                    break;
+                }
+                case 'each': {
+                    const value = this.resolve(node.path, context).value;
+                    const items = Array.isArray(value) ? value : [];
+                    if (items.length === 0) {
+                        output += this.renderNodes(node.otherwise, context);
+                        break;
+                    }
+                    items.forEach((item, index) => {
+                        output += this.renderNodes(node.body, { ...context, [node.alias]: item, '@index': index + 1 });
+                    });
+                    break;
+                }
+            }
+        }
+
+        return output;
+    }
+
+    private renderVariable(node: Extract<TemplateNode, { type: 'variable' }>, context: TemplateContext): string {
+        const { found, value: resolved } = this.resolve(node.path, context);
+        const hasDefault = node.filters.some(filter => filter.name === 'default');
+        if (!found && !hasDefault) {
+            // Not a template variable - probably literal braces in the markdown
+            return node.raw;
+        }
+
+        let value: TemplateValue = resolved;
+        for (const filter of node.filters) {
+            switch (filter.name) {
+                case 'default':
+                    value = this.isTruthy(value) ? value : filter.argument ?? '';
+                    break;
+                case 'date':
+                    value = this.formatDate(value, filter.argument || 'YYYY-MM-DD');
+                    break;
+                case 'upper':
+                    value = this.stringify(value).toUpperCase();
+                    break;
+                case 'lower':
+                    value = this.stringify(value).toLowerCase();
+                    break;
+                case 'join':
+                    value = Array.isArray(value)
+                        ? value.map(item => this.stringify(item)).join(filter.argument ?? ', ')
+                        : value;
+                    break;
+            }
+        }
+
+        return this.stringify(value);
+    }
+
+    private resolve(pathParts: string[], context: TemplateContext): { found: boolean; value: TemplateValue } {
+        if (!(pathParts[0] in context)) {
+            return { found: false, value: undefined };
+        }
+
+        let value: TemplateValue = context[pathParts[0]];
+        for (const part of pathParts.slice(1)) {
+            if (value === undefined || typeof value !== 'object' || Array.isArray(value) || value instanceof Date) {
+                return { found: true, value: undefined };
+            }
+            value = value[part];
+        }
+        return { found: true, value };
+    }
+
+    private isTruthy(value: TemplateValue): boolean {
+        if (Array.isArray(value)) {
+            return value.length > 0;
+        }
+        if (typeof value === 'string') {
+            return value.trim().length > 0;
+        }
+        return value !== undefined && value !== false && value !== 0;
+    }
+
+    private stringify(value: TemplateValue): string {
+        if (value === undefined) {
+            return '';
+        }
+        if (value instanceof Date) {
+            return this.formatDate(value, 'YYYY-MM-DD');
+        }
+        if (Array.isArray(value)) {
+            return value.map(item => this.stringify(item)).join(', ');
+        }
+        if (typeof value === 'object') {
+            return JSON.stringify(value);
+        }
+        return String(value);
+    }
+
+    private toDate(value: TemplateValue): Date | undefined {
+        if (value instanceof Date) {
+            return value;
+        }
+        if (typeof value !== 'string') {
+            return undefined;
+        }
+
+        // Plain dates are calendar days, not UTC midnight
+        const day = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+        if (day) {
+            return new Date(Number(day[1]), Number(day[2]) - 1, Number(day[3]));
+        }
+
+        const parsed = new Date(value);
+        return isNaN(parsed.getTime()) ? undefined : parsed;
+    }
+}